@@ -0,0 +1,49 @@
+#!/usr/bin/env node
+// Prints an ADMIN_USERS entry for one account, so only the hash ever goes into .env:
+//   npm run hash-password -- alice admin
+// The password is read from stdin (hidden when typed into a terminal).
+import crypto from "crypto";
+import readline from "readline";
+
+// Must match the format verifyPassword in src/lib/passwords.ts reads.
+const PARAMS = { N: 16384, r: 8, p: 1 };
+const KEY_LENGTH = 32;
+const ROLES = ["admin", "editor"];
+
+const [username = "admin", role = "admin"] = process.argv.slice(2);
+
+if (!/^[a-zA-Z0-9_.-]{1,32}$/.test(username)) {
+  console.error("Usernames may use letters, digits, '.', '_' and '-' (max 32 chars).");
+  process.exit(1);
+}
+if (!ROLES.includes(role)) {
+  console.error(`Role must be one of: ${ROLES.join(", ")}`);
+  process.exit(1);
+}
+
+const readPassword = () =>
+  new Promise((resolve) => {
+    const rl = readline.createInterface({ input: process.stdin, output: process.stderr, terminal: process.stdin.isTTY });
+    if (process.stdin.isTTY) {
+      process.stderr.write("Password: ");
+      // Swallow echoed keystrokes.
+      rl._writeToOutput = () => {};
+    }
+    rl.question("", (answer) => {
+      rl.close();
+      if (process.stdin.isTTY) process.stderr.write("\n");
+      resolve(answer);
+    });
+  });
+
+const password = await readPassword();
+if (!password) {
+  console.error("Empty password; nothing to hash.");
+  process.exit(1);
+}
+
+const salt = crypto.randomBytes(16);
+const key = crypto.scryptSync(password, salt, KEY_LENGTH, { ...PARAMS, maxmem: 64 * 1024 * 1024 });
+const hash = ["scrypt", PARAMS.N, PARAMS.r, PARAMS.p, salt.toString("base64url"), key.toString("base64url")].join(".");
+
+console.log(`${username}:${role}:${hash}`);
@@ -0,0 +1,185 @@
+"use client";
+
+import dynamic from "next/dynamic";
+import { useEffect, useMemo, useState } from "react";
+
+const GlobeScene = dynamic(() => import("@/components/GlobeScene"), { ssr: false });
+
+type RegionTotal = {
+  country: string;
+  region?: string;
+  lat: number;
+  lng: number;
+  views: number;
+  uniques: number;
+};
+
+type AnalyticsResponse = {
+  from: string;
+  to: string;
+  regions: RegionTotal[];
+  error?: string;
+};
+
+type View = "globe" | "table";
+
+const RANGES = [
+  { days: 7, label: "7 days" },
+  { days: 30, label: "30 days" },
+  { days: 90, label: "90 days" },
+  { days: 365, label: "1 year" },
+];
+
+export function AnalyticsPanel() {
+  const [days, setDays] = useState(30);
+  const [view, setView] = useState<View>("globe");
+  const [report, setReport] = useState<AnalyticsResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      setLoading(true);
+      try {
+        const res = await fetch(`/api/admin/analytics?days=${days}`, { cache: "no-store", credentials: "same-origin" });
+        const body = (await res.json()) as AnalyticsResponse;
+        if (!res.ok) throw new Error(body.error || `Request failed with ${res.status}`);
+        if (cancelled) return;
+        setReport(body);
+        setError(null);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : "Unknown error";
+        if (!cancelled) setError(message);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    load();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [days]);
+
+  const regions = useMemo(() => report?.regions ?? [], [report]);
+  const hexBins = useMemo(() => regions.map(({ lat, lng, views }) => ({ lat, lng, weight: views })), [regions]);
+  const totals = useMemo(
+    () =>
+      regions.reduce(
+        (acc, region) => ({ views: acc.views + region.views, uniques: acc.uniques + region.uniques }),
+        { views: 0, uniques: 0 }
+      ),
+    [regions]
+  );
+
+  return (
+    <div className="rounded-2xl border border-white/10 bg-white/5 p-8 text-white">
+      <div className="space-y-2">
+        <h2 className="text-2xl font-semibold">Visitors</h2>
+        <p className="text-sm text-white/70">
+          Page views by country and region, counted per day. No addresses are stored; daily visitors are counted with a
+          hash whose salt is thrown away at midnight UTC.
+        </p>
+      </div>
+
+      <div className="mt-6 flex flex-wrap items-center justify-between gap-3">
+        <div className="flex gap-1 rounded-lg border border-white/10 bg-black/30 p-1" role="group" aria-label="Time range">
+          {RANGES.map((option) => (
+            <button
+              key={option.days}
+              type="button"
+              onClick={() => setDays(option.days)}
+              aria-pressed={days === option.days}
+              className={`rounded-md px-3 py-1 text-xs font-semibold transition ${
+                days === option.days ? "bg-emerald-400 text-black" : "text-white/60 hover:text-white"
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        <div className="flex gap-2">
+          <div className="flex gap-1 rounded-lg border border-white/10 bg-black/30 p-1" role="group" aria-label="View">
+            {(["globe", "table"] as const).map((option) => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => setView(option)}
+                aria-pressed={view === option}
+                className={`rounded-md px-3 py-1 text-xs font-semibold capitalize transition ${
+                  view === option ? "bg-white/15 text-white" : "text-white/60 hover:text-white"
+                }`}
+              >
+                {option}
+              </button>
+            ))}
+          </div>
+          <a
+            href={`/api/admin/analytics?days=${days}&format=csv`}
+            download
+            className="rounded-lg border border-white/15 px-3 py-2 text-xs font-semibold transition hover:bg-white/10"
+          >
+            Export CSV
+          </a>
+        </div>
+      </div>
+
+      {report && (
+        <div className="mt-6 flex gap-8">
+          <div>
+            <div className="text-2xl font-semibold">{totals.views.toLocaleString()}</div>
+            <div className="text-xs text-white/50">views</div>
+          </div>
+          <div>
+            <div className="text-2xl font-semibold">{totals.uniques.toLocaleString()}</div>
+            <div className="text-xs text-white/50">daily visitors</div>
+          </div>
+          <div>
+            <div className="text-2xl font-semibold">{regions.length.toLocaleString()}</div>
+            <div className="text-xs text-white/50">regions</div>
+          </div>
+        </div>
+      )}
+
+      {view === "globe" ? (
+        <div className="mt-6 overflow-hidden rounded-lg border border-white/10 bg-black/30">
+          <GlobeScene hexBins={hexBins} />
+        </div>
+      ) : regions.length > 0 ? (
+        <div className="mt-6 overflow-x-auto rounded-lg border border-white/10 bg-black/30">
+          <table className="w-full text-left text-sm">
+            <thead className="text-xs uppercase tracking-[0.2em] text-white/40">
+              <tr>
+                <th className="px-4 py-3 font-medium">Country</th>
+                <th className="px-4 py-3 font-medium">Region</th>
+                <th className="px-4 py-3 text-right font-medium">Views</th>
+                <th className="px-4 py-3 text-right font-medium">Daily visitors</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-white/10">
+              {regions.map((region) => (
+                <tr key={`${region.country}|${region.region ?? ""}`}>
+                  <td className="px-4 py-2">{region.country}</td>
+                  <td className="px-4 py-2 text-white/70">{region.region ?? "—"}</td>
+                  <td className="px-4 py-2 text-right tabular-nums">{region.views.toLocaleString()}</td>
+                  <td className="px-4 py-2 text-right tabular-nums">{region.uniques.toLocaleString()}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <div className="mt-6 text-sm text-white/60">{loading ? "Loading visits…" : "No visits recorded in this range."}</div>
+      )}
+
+      {error && (
+        <div className="mt-4 rounded-lg border border-red-400/40 bg-red-400/10 px-4 py-3 text-sm text-red-100">
+          {error}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,182 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+type NoteStatus = "pending" | "approved" | "hidden";
+
+type GuestbookNote = {
+  id: string;
+  name?: string;
+  message: string;
+  place?: string;
+  status: NoteStatus;
+  createdAt: string;
+  moderatedAt?: string;
+  moderatedBy?: string;
+};
+
+const FILTERS: { value: NoteStatus; label: string }[] = [
+  { value: "pending", label: "Queue" },
+  { value: "approved", label: "Approved" },
+  { value: "hidden", label: "Hidden" },
+];
+
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" });
+
+export function GuestbookPanel() {
+  const [notes, setNotes] = useState<GuestbookNote[]>([]);
+  const [filter, setFilter] = useState<NoteStatus>("pending");
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      try {
+        const res = await fetch("/api/admin/guestbook", { cache: "no-store", credentials: "same-origin" });
+        const body = (await res.json()) as { notes?: GuestbookNote[]; error?: string };
+        if (!res.ok) throw new Error(body.error || `Request failed with ${res.status}`);
+        if (!cancelled) setNotes(body.notes ?? []);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : "Unknown error";
+        if (!cancelled) setError(message);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    load();
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const act = async (id: string, action: NoteStatus | "delete") => {
+    setError(null);
+    setBusyId(id);
+
+    try {
+      const res = await fetch(`/api/admin/guestbook/${encodeURIComponent(id)}`, {
+        method: action === "delete" ? "DELETE" : "PATCH",
+        headers: action === "delete" ? undefined : { "Content-Type": "application/json" },
+        body: action === "delete" ? undefined : JSON.stringify({ status: action }),
+        credentials: "same-origin",
+      });
+      const body = (await res.json()) as { note?: GuestbookNote; error?: string };
+      if (!res.ok) {
+        setError(body.error || "Request failed");
+        return;
+      }
+      setNotes((prev) =>
+        action === "delete"
+          ? prev.filter((note) => note.id !== id)
+          : prev.map((note) => (note.id === id && body.note ? body.note : note))
+      );
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Unknown error";
+      setError(message);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const visible = notes.filter((note) => note.status === filter);
+
+  return (
+    <div className="rounded-2xl border border-white/10 bg-white/5 p-8 text-white">
+      <div className="space-y-2">
+        <h2 className="text-2xl font-semibold">Guestbook</h2>
+        <p className="text-sm text-white/70">
+          Notes stay off the globe until they&apos;re approved. Hidden notes can be approved later; deleted ones are gone.
+          New notes are refused while 200 wait in the queue or 2,000 are queued or approved. Past that, the oldest
+          hidden notes are dropped to make room.
+        </p>
+      </div>
+
+      <div className="mt-6 flex flex-wrap gap-2" role="tablist">
+        {FILTERS.map((option) => {
+          const count = notes.filter((note) => note.status === option.value).length;
+          return (
+            <button
+              key={option.value}
+              type="button"
+              role="tab"
+              aria-selected={filter === option.value}
+              onClick={() => setFilter(option.value)}
+              className={`rounded-lg border px-3 py-2 text-xs font-semibold transition ${
+                filter === option.value
+                  ? "border-emerald-300/50 bg-emerald-300/10 text-emerald-100"
+                  : "border-white/15 hover:bg-white/10"
+              }`}
+            >
+              {option.label} ({count})
+            </button>
+          );
+        })}
+      </div>
+
+      {loading ? (
+        <div className="mt-6 text-sm text-white/60">Loading notes…</div>
+      ) : visible.length === 0 ? (
+        <div className="mt-6 text-sm text-white/60">
+          {filter === "pending" ? "Nothing waiting for moderation." : "No notes here."}
+        </div>
+      ) : (
+        <ul className="mt-6 divide-y divide-white/10 rounded-lg border border-white/10 bg-black/30">
+          {visible.map((note) => (
+            <li key={note.id} className="flex flex-col gap-3 px-4 py-3 text-sm sm:flex-row sm:items-start sm:justify-between">
+              <div className="min-w-0 space-y-1">
+                <div className="whitespace-pre-wrap break-words">{note.message}</div>
+                <div className="text-xs text-white/50">
+                  {note.name ?? "Anonymous"}
+                  {note.place ? ` · ${note.place}` : ""} · {formatDate(note.createdAt)}
+                  {note.moderatedBy ? ` · ${note.status} by ${note.moderatedBy}` : ""}
+                </div>
+              </div>
+              <div className="flex shrink-0 gap-2">
+                {note.status !== "approved" && (
+                  <button
+                    type="button"
+                    onClick={() => act(note.id, "approved")}
+                    disabled={busyId === note.id}
+                    className="rounded-lg bg-emerald-400 px-3 py-1.5 text-xs font-semibold text-black transition hover:bg-emerald-300 disabled:opacity-60"
+                  >
+                    Approve
+                  </button>
+                )}
+                {note.status !== "hidden" && (
+                  <button
+                    type="button"
+                    onClick={() => act(note.id, "hidden")}
+                    disabled={busyId === note.id}
+                    className="rounded-lg border border-white/15 px-3 py-1.5 text-xs font-semibold transition hover:bg-white/10 disabled:opacity-40"
+                  >
+                    Hide
+                  </button>
+                )}
+                <button
+                  type="button"
+                  onClick={() => act(note.id, "delete")}
+                  disabled={busyId === note.id}
+                  className="rounded-lg border border-red-400/40 px-3 py-1.5 text-xs font-semibold text-red-100 transition hover:bg-red-400/10 disabled:opacity-40"
+                >
+                  Delete
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {error && (
+        <div className="mt-4 rounded-lg border border-red-400/40 bg-red-400/10 px-4 py-3 text-sm text-red-100">
+          {error}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,256 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { viewForPoints } from "@/lib/globeView";
+
+type OwnerLocation = {
+  lat: number;
+  lng: number;
+  label: string;
+  updatedAt?: string;
+};
+
+type ViewerLocation = { lat: number; lng: number };
+
+const MAP_IMAGE_URL = "https://unpkg.com/three-globe/example/img/earth-dark.jpg";
+
+// The globe texture is equirectangular, so x/y map linearly onto lng/lat.
+const toMapPercent = ({ lat, lng }: { lat: number; lng: number }) => ({
+  left: `${((lng + 180) / 360) * 100}%`,
+  top: `${((90 - lat) / 180) * 100}%`,
+});
+
+const round = (value: number, digits = 4) => Number(value.toFixed(digits));
+
+export function LocationForm() {
+  const [lat, setLat] = useState("");
+  const [lng, setLng] = useState("");
+  const [label, setLabel] = useState("");
+  const [updatedAt, setUpdatedAt] = useState<string | null>(null);
+  const [viewer, setViewer] = useState<ViewerLocation | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      try {
+        const res = await fetch("/api/admin/location", { cache: "no-store", credentials: "same-origin" });
+        const body = (await res.json()) as OwnerLocation & { error?: string };
+        if (!res.ok) throw new Error(body.error || `Request failed with ${res.status}`);
+        if (cancelled) return;
+        setLat(String(body.lat));
+        setLng(String(body.lng));
+        setLabel(body.label);
+        setUpdatedAt(body.updatedAt ?? null);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : "Unknown error";
+        if (!cancelled) setError(message);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    // The preview frames the owner point against a sample visitor: this browser.
+    const loadViewer = async () => {
+      try {
+        const res = await fetch("/api/ip-location", { cache: "no-store" });
+        if (!res.ok) return;
+        const body = (await res.json()) as ViewerLocation;
+        if (!cancelled && Number.isFinite(body.lat) && Number.isFinite(body.lng)) {
+          setViewer({ lat: body.lat, lng: body.lng });
+        }
+      } catch {
+        // Preview falls back to the owner point alone.
+      }
+    };
+
+    load();
+    loadViewer();
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const candidate = useMemo(() => {
+    const parsedLat = Number.parseFloat(lat);
+    const parsedLng = Number.parseFloat(lng);
+    if (!Number.isFinite(parsedLat) || !Number.isFinite(parsedLng)) return null;
+    if (Math.abs(parsedLat) > 90 || Math.abs(parsedLng) > 180) return null;
+    return { lat: parsedLat, lng: parsedLng };
+  }, [lat, lng]);
+
+  const previewView = useMemo(() => {
+    if (!candidate) return null;
+    return viewForPoints(viewer ? [candidate, viewer] : [candidate]);
+  }, [candidate, viewer]);
+
+  const onMapClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = (e.clientX - rect.left) / rect.width;
+    const y = (e.clientY - rect.top) / rect.height;
+    setLng(String(round(x * 360 - 180)));
+    setLat(String(round(90 - y * 180)));
+    setStatus(null);
+  };
+
+  const onSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!candidate) {
+      setError("Pick a point on the map or enter valid coordinates.");
+      return;
+    }
+
+    setError(null);
+    setStatus(null);
+    setSaving(true);
+
+    try {
+      const res = await fetch("/api/admin/location", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...candidate, label }),
+        credentials: "same-origin",
+      });
+      const body = (await res.json()) as { ok?: boolean; error?: string; location?: OwnerLocation };
+
+      if (!res.ok || !body.ok || !body.location) {
+        setError(body.error || "Saving location failed");
+        return;
+      }
+
+      setLabel(body.location.label);
+      setUpdatedAt(body.location.updatedAt ?? null);
+      setStatus("Location published.");
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Unknown error";
+      setError(message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="rounded-2xl border border-white/10 bg-white/5 p-8 text-white">
+      <div className="space-y-2">
+        <h2 className="text-2xl font-semibold">Location</h2>
+        <p className="text-sm text-white/70">
+          Click the map to pick where you are. The home page globe picks it up on its next refresh.
+        </p>
+      </div>
+
+      <div
+        className="relative mt-6 aspect-[2/1] w-full cursor-crosshair overflow-hidden rounded-xl border border-white/10 bg-black/40"
+        onClick={onMapClick}
+        role="presentation"
+      >
+        {/* eslint-disable-next-line @next/next/no-img-element */}
+        <img src={MAP_IMAGE_URL} alt="World map" className="h-full w-full select-none object-cover" draggable={false} />
+        {previewView && (
+          <span
+            className="pointer-events-none absolute h-6 w-6 -translate-x-1/2 -translate-y-1/2 rounded-full border border-dashed border-emerald-300/70"
+            style={toMapPercent(previewView)}
+            title="Camera center"
+          />
+        )}
+        {viewer && (
+          <span
+            className="pointer-events-none absolute h-2 w-2 -translate-x-1/2 -translate-y-1/2 rounded-full bg-emerald-300"
+            style={toMapPercent(viewer)}
+            title="Sample visitor (you)"
+          />
+        )}
+        {candidate && (
+          <span
+            className="pointer-events-none absolute h-3 w-3 -translate-x-1/2 -translate-y-1/2 rounded-full bg-white shadow-[0_0_12px_rgba(255,255,255,0.8)]"
+            style={toMapPercent(candidate)}
+            title="Your location"
+          />
+        )}
+      </div>
+
+      <form onSubmit={onSubmit} className="mt-6 space-y-4">
+        <div className="grid grid-cols-2 gap-4">
+          <label className="block text-sm text-white/80">
+            Latitude
+            <input
+              type="number"
+              step="any"
+              min={-90}
+              max={90}
+              className="mt-2 w-full rounded-lg border border-white/15 bg-black/40 px-3 py-2 text-white outline-none focus:border-emerald-300/60"
+              value={lat}
+              onChange={(e) => setLat(e.target.value)}
+              required
+              disabled={loading || saving}
+            />
+          </label>
+          <label className="block text-sm text-white/80">
+            Longitude
+            <input
+              type="number"
+              step="any"
+              min={-180}
+              max={180}
+              className="mt-2 w-full rounded-lg border border-white/15 bg-black/40 px-3 py-2 text-white outline-none focus:border-emerald-300/60"
+              value={lng}
+              onChange={(e) => setLng(e.target.value)}
+              required
+              disabled={loading || saving}
+            />
+          </label>
+        </div>
+
+        <label className="block text-sm text-white/80">
+          Label
+          <input
+            type="text"
+            maxLength={80}
+            className="mt-2 w-full rounded-lg border border-white/15 bg-black/40 px-3 py-2 text-white outline-none focus:border-emerald-300/60"
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+            placeholder="Petar (general area)"
+            disabled={loading || saving}
+          />
+        </label>
+
+        {previewView && (
+          <div className="rounded-lg border border-white/10 bg-black/30 px-4 py-3 text-xs text-white/60">
+            <div className="uppercase tracking-[0.2em] text-white/40">Camera preview</div>
+            <div className="mt-1 font-mono">
+              center {previewView.lat.toFixed(2)}, {previewView.lng.toFixed(2)} · altitude{" "}
+              {previewView.farAltitude.toFixed(2)}
+            </div>
+            <div className="mt-1">{viewer ? "Framed against your current location." : "Framed on your point alone."}</div>
+          </div>
+        )}
+
+        <button
+          type="submit"
+          disabled={loading || saving || !candidate}
+          className="w-full rounded-lg bg-emerald-400 px-4 py-2 text-sm font-semibold text-black transition hover:bg-emerald-300 disabled:opacity-60"
+        >
+          {saving ? "Saving..." : "Publish location"}
+        </button>
+      </form>
+
+      {updatedAt && !status && (
+        <div className="mt-4 text-xs text-white/50">Last updated {new Date(updatedAt).toLocaleString()}</div>
+      )}
+      {status && (
+        <div className="mt-4 rounded-lg border border-emerald-300/40 bg-emerald-300/10 px-4 py-3 text-sm text-emerald-100">
+          {status}
+        </div>
+      )}
+      {error && (
+        <div className="mt-4 rounded-lg border border-red-400/40 bg-red-400/10 px-4 py-3 text-sm text-red-100">
+          {error}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,41 +1,46 @@
 "use client";
 
+import { useRouter } from "next/navigation";
 import { useEffect, useState } from "react";
 
-type Props = {
-  initialAuthenticated: boolean;
+const formatCountdown = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60);
+  const rest = String(seconds % 60).padStart(2, "0");
+  return `${minutes}:${rest}`;
 };
 
-type SessionSource = "none" | "login" | "cookie";
-
-export function LoginPanel({ initialAuthenticated }: Props) {
+export function LoginPanel() {
+  const router = useRouter();
+  const [username, setUsername] = useState("");
   const [password, setPassword] = useState("");
+  // Set once the password passed for an account with two-factor enabled.
+  const [challenge, setChallenge] = useState<string | null>(null);
+  const [code, setCode] = useState("");
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
   const [status, setStatus] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
-  const [authenticated, setAuthenticated] = useState(initialAuthenticated);
-  const [sessionSource, setSessionSource] = useState<SessionSource>(
-    initialAuthenticated ? "cookie" : "none"
-  );
   const [loading, setLoading] = useState(false);
+  const [lockedUntil, setLockedUntil] = useState<number | null>(null);
+  const [lockRemaining, setLockRemaining] = useState(0);
 
   useEffect(() => {
-    // Verify session on mount in case of existing cookie.
-    const checkSession = async () => {
-      try {
-        const res = await fetch("/api/admin/login", { method: "GET", credentials: "same-origin" });
-        if (!res.ok) return;
-        const body = (await res.json()) as { authenticated?: boolean };
-        if (body.authenticated) {
-          setAuthenticated(true);
-          setSessionSource("cookie");
-          setStatus("Existing session found via cookie.");
-        }
-      } catch {
-        // Ignore and fall back to login form.
-      }
+    if (lockedUntil === null) return;
+
+    const tick = () => {
+      const remaining = Math.max(0, Math.ceil((lockedUntil - Date.now()) / 1000));
+      setLockRemaining(remaining);
+      if (remaining === 0) setLockedUntil(null);
+    };
+
+    const interval = setInterval(tick, 1000);
+    const first = setTimeout(tick, 0);
+    return () => {
+      clearInterval(interval);
+      clearTimeout(first);
     };
-    if (!initialAuthenticated) checkSession();
-  }, [initialAuthenticated]);
+  }, [lockedUntil]);
+
+  const locked = lockedUntil !== null && lockRemaining > 0;
 
   const onSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -47,84 +52,150 @@ export function LoginPanel({ initialAuthenticated }: Props) {
       const res = await fetch("/api/admin/login", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ password }),
+        body: JSON.stringify(
+          challenge
+            ? { challenge, ...(useRecoveryCode ? { recoveryCode: code } : { code }) }
+            : { username, password }
+        ),
         credentials: "same-origin",
       });
 
-      const body = (await res.json()) as { ok?: boolean; error?: string };
+      const body = (await res.json()) as {
+        ok?: boolean;
+        error?: string;
+        retryAfterSeconds?: number;
+        mfaRequired?: boolean;
+        challenge?: string;
+        challengeExpired?: boolean;
+      };
+
+      if (body.mfaRequired && body.challenge) {
+        setChallenge(body.challenge);
+        setPassword("");
+        setCode("");
+        return;
+      }
+
+      if (res.status === 429) {
+        const retryAfter = body.retryAfterSeconds ?? Number(res.headers.get("Retry-After") ?? 0);
+        setLockRemaining(retryAfter);
+        setLockedUntil(Date.now() + retryAfter * 1000);
+      }
 
       if (!res.ok || !body.ok) {
         setError(body.error || "Login failed");
-        setAuthenticated(false);
-        setSessionSource("none");
+        // An expired challenge sends the user back to the password step.
+        if (body.challengeExpired) setChallenge(null);
         return;
       }
 
-      setAuthenticated(true);
-      setSessionSource("login");
-      setStatus(null);
       setPassword("");
+      setStatus("Signed in. Opening dashboard...");
+      router.replace("/admin/dashboard");
+      router.refresh();
     } catch (err) {
       const message = err instanceof Error ? err.message : "Unknown error";
       setError(message);
-      setAuthenticated(false);
     } finally {
       setLoading(false);
     }
   };
 
   return (
-    <div className="max-w-lg rounded-2xl border border-white/10 bg-white/5 p-8 text-white">
-      <div className="space-y-2">
-        <h1 className="text-3xl font-semibold">Admin login</h1>
-        <p className="text-sm text-white/70">
-          Enter your admin password to start a session.
-        </p>
-      </div>
+    <div className="flex flex-col gap-8">
+      <div className="max-w-lg rounded-2xl border border-white/10 bg-white/5 p-8 text-white">
+        <div className="space-y-2">
+          <h1 className="text-3xl font-semibold">Admin login</h1>
+          <p className="text-sm text-white/70">
+            Enter your admin username and password to start a session.
+          </p>
+        </div>
 
-      <form onSubmit={onSubmit} className="mt-8 space-y-4">
-        <label className="block text-sm text-white/80">
-          Password
-          <input
-            type="password"
-            className="mt-2 w-full rounded-lg border border-white/15 bg-black/40 px-3 py-2 text-white outline-none focus:border-emerald-300/60"
-            value={password}
-            onChange={(e) => setPassword(e.target.value)}
-            placeholder="••••••••"
-            required
-            autoComplete="current-password"
-            disabled={loading}
-          />
-        </label>
-
-        <button
-          type="submit"
-          disabled={loading}
-          className="w-full rounded-lg bg-emerald-400 px-4 py-2 text-sm font-semibold text-black transition hover:bg-emerald-300 disabled:opacity-60"
-        >
-          {loading ? "Signing in..." : "Sign in"}
-        </button>
-      </form>
-
-      {authenticated && (
-        <div className="mt-4 rounded-lg border border-emerald-300/40 bg-emerald-300/10 px-4 py-3 text-sm text-emerald-100">
-          <div className="font-semibold">Session active.</div>
-          <div>You can safely close this tab and stay signed in for a year.</div>
-          {sessionSource === "cookie" && (
-            <div className="mt-2 text-emerald-50/80">Verified existing session from stored cookie.</div>
+        <form onSubmit={onSubmit} className="mt-8 space-y-4">
+          {challenge ? (
+            <label className="block text-sm text-white/80">
+              {useRecoveryCode ? "Recovery code" : "Authenticator code"}
+              <input
+                type="text"
+                inputMode={useRecoveryCode ? "text" : "numeric"}
+                className="mt-2 w-full rounded-lg border border-white/15 bg-black/40 px-3 py-2 font-mono tracking-[0.2em] text-white outline-none focus:border-emerald-300/60"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                placeholder={useRecoveryCode ? "xxxxx-xxxxx" : "123456"}
+                required
+                autoComplete="one-time-code"
+                autoFocus
+                disabled={loading}
+              />
+              <button
+                type="button"
+                onClick={() => {
+                  setUseRecoveryCode((prev) => !prev);
+                  setCode("");
+                }}
+                className="mt-2 text-xs text-white/60 underline transition hover:text-white"
+              >
+                {useRecoveryCode ? "Use authenticator code instead" : "Use a recovery code instead"}
+              </button>
+            </label>
+          ) : (
+            <>
+              <label className="block text-sm text-white/80">
+                Username
+                <input
+                  type="text"
+                  className="mt-2 w-full rounded-lg border border-white/15 bg-black/40 px-3 py-2 text-white outline-none focus:border-emerald-300/60"
+                  value={username}
+                  onChange={(e) => setUsername(e.target.value)}
+                  placeholder="admin"
+                  autoComplete="username"
+                  disabled={loading}
+                />
+              </label>
+
+              <label className="block text-sm text-white/80">
+                Password
+                <input
+                  type="password"
+                  className="mt-2 w-full rounded-lg border border-white/15 bg-black/40 px-3 py-2 text-white outline-none focus:border-emerald-300/60"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  placeholder="••••••••"
+                  required
+                  autoComplete="current-password"
+                  disabled={loading}
+                />
+              </label>
+            </>
           )}
-        </div>
-      )}
-      {status && !authenticated && (
-        <div className="mt-4 rounded-lg border border-white/10 bg-white/5 px-4 py-3 text-sm text-white/80">
-          {status}
-        </div>
-      )}
-      {error && (
-        <div className="mt-4 rounded-lg border border-red-400/40 bg-red-400/10 px-4 py-3 text-sm text-red-100">
-          {error}
-        </div>
-      )}
+
+          <button
+            type="submit"
+            disabled={loading || locked}
+            className="w-full rounded-lg bg-emerald-400 px-4 py-2 text-sm font-semibold text-black transition hover:bg-emerald-300 disabled:opacity-60"
+          >
+            {locked
+              ? `Locked · ${formatCountdown(lockRemaining)}`
+              : loading
+                ? "Signing in..."
+                : challenge
+                  ? "Verify"
+                  : "Sign in"}
+          </button>
+        </form>
+
+        {status && (
+          <div className="mt-4 rounded-lg border border-white/10 bg-white/5 px-4 py-3 text-sm text-white/80">
+            {status}
+          </div>
+        )}
+        {error && (
+          <div className="mt-4 rounded-lg border border-red-400/40 bg-red-400/10 px-4 py-3 text-sm text-red-100">
+            {error}
+            {locked && <div className="mt-1 text-red-100/80">You can try again in {formatCountdown(lockRemaining)}.</div>}
+          </div>
+        )}
+      </div>
     </div>
   );
 }
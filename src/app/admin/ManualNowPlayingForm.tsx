@@ -0,0 +1,218 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+type ManualTrack = {
+  track: string;
+  artists?: string;
+  album?: string;
+  albumImageUrl?: string;
+  trackUrl?: string;
+  durationMs?: number;
+  startedAt: string;
+  expiresAt: string;
+};
+
+type ManualResponse = {
+  manual?: ManualTrack | null;
+  error?: string;
+};
+
+const inputClassName =
+  "mt-2 w-full rounded-lg border border-white/15 bg-black/40 px-3 py-2 text-white outline-none focus:border-emerald-300/60";
+
+export function ManualNowPlayingForm() {
+  const [track, setTrack] = useState("");
+  const [artists, setArtists] = useState("");
+  const [album, setAlbum] = useState("");
+  const [albumImageUrl, setAlbumImageUrl] = useState("");
+  const [trackUrl, setTrackUrl] = useState("");
+  const [durationMinutes, setDurationMinutes] = useState("");
+  const [active, setActive] = useState<ManualTrack | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      try {
+        const res = await fetch("/api/admin/now-playing", { cache: "no-store", credentials: "same-origin" });
+        const body = (await res.json()) as ManualResponse;
+        if (!res.ok) throw new Error(body.error || `Request failed with ${res.status}`);
+        if (!cancelled) setActive(body.manual ?? null);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : "Unknown error";
+        if (!cancelled) setError(message);
+      }
+    };
+
+    load();
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const send = async (method: "POST" | "DELETE", payload?: object) => {
+    setError(null);
+    setStatus(null);
+    setSaving(true);
+
+    try {
+      const res = await fetch("/api/admin/now-playing", {
+        method,
+        headers: payload ? { "Content-Type": "application/json" } : undefined,
+        body: payload ? JSON.stringify(payload) : undefined,
+        credentials: "same-origin",
+      });
+      const body = (await res.json()) as ManualResponse;
+      if (!res.ok) {
+        setError(body.error || "Request failed");
+        return false;
+      }
+      setActive(body.manual ?? null);
+      return true;
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Unknown error";
+      setError(message);
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const onSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const minutes = Number.parseFloat(durationMinutes);
+    const ok = await send("POST", {
+      track,
+      artists,
+      album,
+      albumImageUrl,
+      trackUrl,
+      durationMs: Number.isFinite(minutes) && minutes > 0 ? Math.round(minutes * 60_000) : undefined,
+    });
+    if (ok) setStatus("Now playing updated.");
+  };
+
+  const onClear = async () => {
+    if (await send("DELETE")) setStatus("Manual entry cleared.");
+  };
+
+  return (
+    <div className="rounded-2xl border border-white/10 bg-white/5 p-8 text-white">
+      <div className="space-y-2">
+        <h2 className="text-2xl font-semibold">Manual now playing</h2>
+        <p className="text-sm text-white/70">
+          {active
+            ? `Showing "${active.track}" until ${new Date(active.expiresAt).toLocaleTimeString()}.`
+            : "Post what's playing from a source with no API, like a record player. It shows until the duration runs out, or for an hour."}
+        </p>
+      </div>
+
+      <form onSubmit={onSubmit} className="mt-6 space-y-4">
+        <label className="block text-sm text-white/80">
+          Track
+          <input
+            className={inputClassName}
+            value={track}
+            onChange={(e) => setTrack(e.target.value)}
+            required
+            maxLength={200}
+            disabled={saving}
+          />
+        </label>
+        <div className="grid gap-4 sm:grid-cols-2">
+          <label className="block text-sm text-white/80">
+            Artists
+            <input
+              className={inputClassName}
+              value={artists}
+              onChange={(e) => setArtists(e.target.value)}
+              maxLength={200}
+              disabled={saving}
+            />
+          </label>
+          <label className="block text-sm text-white/80">
+            Album
+            <input
+              className={inputClassName}
+              value={album}
+              onChange={(e) => setAlbum(e.target.value)}
+              maxLength={200}
+              disabled={saving}
+            />
+          </label>
+          <label className="block text-sm text-white/80">
+            Album art URL
+            <input
+              type="url"
+              className={inputClassName}
+              value={albumImageUrl}
+              onChange={(e) => setAlbumImageUrl(e.target.value)}
+              placeholder="https://"
+              disabled={saving}
+            />
+          </label>
+          <label className="block text-sm text-white/80">
+            Link
+            <input
+              type="url"
+              className={inputClassName}
+              value={trackUrl}
+              onChange={(e) => setTrackUrl(e.target.value)}
+              placeholder="https://"
+              disabled={saving}
+            />
+          </label>
+          <label className="block text-sm text-white/80">
+            Duration (minutes)
+            <input
+              type="number"
+              step="0.5"
+              min={0}
+              max={180}
+              className={inputClassName}
+              value={durationMinutes}
+              onChange={(e) => setDurationMinutes(e.target.value)}
+              disabled={saving}
+            />
+          </label>
+        </div>
+
+        <div className="flex gap-3">
+          <button
+            type="submit"
+            disabled={saving || !track.trim()}
+            className="flex-1 rounded-lg bg-emerald-400 px-4 py-2 text-sm font-semibold text-black transition hover:bg-emerald-300 disabled:opacity-60"
+          >
+            {saving ? "Saving..." : "Set now playing"}
+          </button>
+          {active && (
+            <button
+              type="button"
+              onClick={onClear}
+              disabled={saving}
+              className="rounded-lg border border-white/15 px-4 py-2 text-sm font-semibold transition hover:bg-white/10 disabled:opacity-40"
+            >
+              Clear
+            </button>
+          )}
+        </div>
+      </form>
+
+      {status && (
+        <div className="mt-4 rounded-lg border border-emerald-300/40 bg-emerald-300/10 px-4 py-3 text-sm text-emerald-100">
+          {status}
+        </div>
+      )}
+      {error && (
+        <div className="mt-4 rounded-lg border border-red-400/40 bg-red-400/10 px-4 py-3 text-sm text-red-100">
+          {error}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,204 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+
+type MfaStatus = {
+  enabled: boolean;
+  enabledAt?: number;
+  recoveryCodesRemaining: number;
+};
+
+type Enrollment = {
+  secret: string;
+  uri: string;
+  qr: string;
+};
+
+export function MfaPanel() {
+  const [status, setStatus] = useState<MfaStatus | null>(null);
+  const [enrollment, setEnrollment] = useState<Enrollment | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch("/api/admin/mfa", { cache: "no-store", credentials: "same-origin" });
+      const body = (await res.json()) as MfaStatus & { error?: string };
+      if (!res.ok) throw new Error(body.error || `Request failed with ${res.status}`);
+      setStatus(body);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Unknown error";
+      setError(message);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const request = async <T,>(method: string, url: string, payload?: object) => {
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await fetch(url, {
+        method,
+        headers: payload ? { "Content-Type": "application/json" } : undefined,
+        body: payload ? JSON.stringify(payload) : undefined,
+        credentials: "same-origin",
+      });
+      const body = (await res.json()) as T & { error?: string };
+      if (!res.ok) throw new Error(body.error || `Request failed with ${res.status}`);
+      return body;
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Unknown error";
+      setError(message);
+      return null;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const startEnrollment = async () => {
+    setRecoveryCodes(null);
+    const body = await request<Enrollment>("POST", "/api/admin/mfa");
+    if (body) setEnrollment(body);
+  };
+
+  const confirmEnrollment = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const body = await request<{ recoveryCodes: string[] }>("PUT", "/api/admin/mfa", { code });
+    if (!body) return;
+    setEnrollment(null);
+    setRecoveryCodes(body.recoveryCodes);
+    setCode("");
+    await load();
+  };
+
+  const regenerateCodes = async () => {
+    const body = await request<{ recoveryCodes: string[] }>("POST", "/api/admin/mfa/recovery-codes", { code });
+    if (!body) return;
+    setRecoveryCodes(body.recoveryCodes);
+    setCode("");
+    await load();
+  };
+
+  const disable = async () => {
+    const body = await request<{ ok: boolean }>("DELETE", "/api/admin/mfa", { code });
+    if (!body) return;
+    setRecoveryCodes(null);
+    setCode("");
+    await load();
+  };
+
+  const codeInput = (
+    <input
+      type="text"
+      inputMode="numeric"
+      autoComplete="one-time-code"
+      pattern="[0-9 ]*"
+      maxLength={7}
+      className="w-36 rounded-lg border border-white/15 bg-black/40 px-3 py-2 font-mono tracking-[0.3em] text-white outline-none focus:border-emerald-300/60"
+      value={code}
+      onChange={(e) => setCode(e.target.value)}
+      placeholder="123456"
+      disabled={busy}
+      aria-label="Authenticator code"
+    />
+  );
+
+  return (
+    <div className="rounded-2xl border border-white/10 bg-white/5 p-8 text-white">
+      <div className="space-y-2">
+        <h2 className="text-2xl font-semibold">Two-factor authentication</h2>
+        <p className="text-sm text-white/70">
+          {status?.enabled
+            ? `Enabled${status.enabledAt ? ` since ${new Date(status.enabledAt).toLocaleDateString()}` : ""}. ${
+                status.recoveryCodesRemaining
+              } recovery codes left.`
+            : "Require a code from an authenticator app after your password."}
+        </p>
+      </div>
+
+      {status && !status.enabled && !enrollment && (
+        <button
+          type="button"
+          onClick={startEnrollment}
+          disabled={busy}
+          className="mt-6 rounded-lg bg-emerald-400 px-4 py-2 text-sm font-semibold text-black transition hover:bg-emerald-300 disabled:opacity-60"
+        >
+          Set up authenticator
+        </button>
+      )}
+
+      {enrollment && (
+        <form onSubmit={confirmEnrollment} className="mt-6 space-y-4">
+          <div className="flex flex-col gap-4 sm:flex-row sm:items-center">
+            {/* eslint-disable-next-line @next/next/no-img-element */}
+            <img src={enrollment.qr} alt="Authenticator QR code" className="h-44 w-44 rounded-lg bg-white p-2" />
+            <div className="min-w-0 space-y-2 text-sm text-white/70">
+              <div>Scan the code, or enter this key manually:</div>
+              <code className="block break-all rounded bg-black/40 px-2 py-1 font-mono text-xs text-white">
+                {enrollment.secret}
+              </code>
+              <a href={enrollment.uri} className="block text-xs text-emerald-200 underline">
+                Open in authenticator app
+              </a>
+            </div>
+          </div>
+          <div className="flex items-center gap-3">
+            {codeInput}
+            <button
+              type="submit"
+              disabled={busy || code.trim().length < 6}
+              className="rounded-lg bg-emerald-400 px-4 py-2 text-sm font-semibold text-black transition hover:bg-emerald-300 disabled:opacity-60"
+            >
+              Confirm
+            </button>
+          </div>
+        </form>
+      )}
+
+      {status?.enabled && (
+        <div className="mt-6 flex flex-wrap items-center gap-3">
+          {codeInput}
+          <button
+            type="button"
+            onClick={regenerateCodes}
+            disabled={busy || code.trim().length < 6}
+            className="rounded-lg border border-white/15 px-3 py-2 text-xs font-semibold transition hover:bg-white/10 disabled:opacity-40"
+          >
+            New recovery codes
+          </button>
+          <button
+            type="button"
+            onClick={disable}
+            disabled={busy || code.trim().length < 6}
+            className="rounded-lg border border-red-400/40 px-3 py-2 text-xs font-semibold text-red-100 transition hover:bg-red-400/10 disabled:opacity-40"
+          >
+            Disable
+          </button>
+        </div>
+      )}
+
+      {recoveryCodes && (
+        <div className="mt-6 rounded-lg border border-amber-300/40 bg-amber-300/10 px-4 py-3 text-sm text-amber-50">
+          <div className="font-semibold">Save these recovery codes now.</div>
+          <div className="text-amber-50/80">Each works once if you lose your authenticator. They won&apos;t be shown again.</div>
+          <ul className="mt-3 grid grid-cols-2 gap-1 font-mono text-xs">
+            {recoveryCodes.map((c) => (
+              <li key={c}>{c}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {error && (
+        <div className="mt-4 rounded-lg border border-red-400/40 bg-red-400/10 px-4 py-3 text-sm text-red-100">
+          {error}
+        </div>
+      )}
+    </div>
+  );
+}
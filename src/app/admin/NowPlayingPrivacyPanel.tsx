@@ -0,0 +1,229 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+type BlockKind = "artist" | "track" | "album" | "context";
+type BlockBehaviour = "mask" | "skip";
+
+type BlockRule = {
+  id: string;
+  kind: BlockKind;
+  label: string;
+  behaviour: BlockBehaviour;
+  addedAt: string;
+};
+
+type PrivacyResponse = {
+  pause?: { from: string; until: string } | null;
+  rules?: BlockRule[];
+  error?: string;
+};
+
+const PAUSE_OPTIONS = [
+  { minutes: 30, label: "30 min" },
+  { minutes: 120, label: "2 hours" },
+  { minutes: 480, label: "8 hours" },
+  { minutes: 1440, label: "1 day" },
+];
+
+const KIND_OPTIONS: { value: BlockKind; label: string }[] = [
+  { value: "artist", label: "Artist" },
+  { value: "track", label: "Track" },
+  { value: "album", label: "Album" },
+  { value: "context", label: "Playlist / context" },
+];
+
+const inputClassName =
+  "mt-2 w-full rounded-lg border border-white/15 bg-black/40 px-3 py-2 text-white outline-none focus:border-emerald-300/60";
+
+export function NowPlayingPrivacyPanel() {
+  const [pause, setPause] = useState<PrivacyResponse["pause"]>(null);
+  const [rules, setRules] = useState<BlockRule[]>([]);
+  const [kind, setKind] = useState<BlockKind>("artist");
+  const [value, setValue] = useState("");
+  const [behaviour, setBehaviour] = useState<BlockBehaviour>("mask");
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      try {
+        const res = await fetch("/api/admin/now-playing/privacy", { cache: "no-store", credentials: "same-origin" });
+        const body = (await res.json()) as PrivacyResponse;
+        if (!res.ok) throw new Error(body.error || `Request failed with ${res.status}`);
+        if (cancelled) return;
+        setPause(body.pause ?? null);
+        setRules(body.rules ?? []);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : "Unknown error";
+        if (!cancelled) setError(message);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    load();
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const send = async (path: string, method: "PUT" | "POST" | "DELETE", payload?: object) => {
+    setError(null);
+    setBusy(true);
+
+    try {
+      const res = await fetch(`/api/admin/now-playing/privacy${path}`, {
+        method,
+        headers: payload ? { "Content-Type": "application/json" } : undefined,
+        body: payload ? JSON.stringify(payload) : undefined,
+        credentials: "same-origin",
+      });
+      const body = (await res.json()) as PrivacyResponse;
+      if (!res.ok) {
+        setError(body.error || "Request failed");
+        return false;
+      }
+      setPause(body.pause ?? null);
+      setRules(body.rules ?? []);
+      return true;
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Unknown error";
+      setError(message);
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const onAddRule = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (await send("/rules", "POST", { kind, value, behaviour })) setValue("");
+  };
+
+  return (
+    <div className="rounded-2xl border border-white/10 bg-white/5 p-8 text-white">
+      <div className="space-y-2">
+        <h2 className="text-2xl font-semibold">Now-playing privacy</h2>
+        <p className="text-sm text-white/70">
+          Filtering happens on the server. Hidden items never reach visitors, the recently played list or the stats.
+        </p>
+      </div>
+
+      <div className="mt-6 space-y-3">
+        <div className="text-sm text-white/80">
+          {pause
+            ? `Broadcasting is paused until ${new Date(pause.until).toLocaleString()}.`
+            : "Broadcasting is live."}
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {PAUSE_OPTIONS.map((option) => (
+            <button
+              key={option.minutes}
+              type="button"
+              onClick={() => send("/pause", "PUT", { minutes: option.minutes })}
+              disabled={loading || busy}
+              className="rounded-lg border border-white/15 px-3 py-2 text-xs font-semibold transition hover:bg-white/10 disabled:opacity-40"
+            >
+              Private for {option.label}
+            </button>
+          ))}
+          {pause && (
+            <button
+              type="button"
+              onClick={() => send("/pause", "DELETE")}
+              disabled={busy}
+              className="rounded-lg bg-emerald-400 px-3 py-2 text-xs font-semibold text-black transition hover:bg-emerald-300 disabled:opacity-60"
+            >
+              Resume now
+            </button>
+          )}
+        </div>
+      </div>
+
+      <form onSubmit={onAddRule} className="mt-8 space-y-4">
+        <div className="grid gap-4 sm:grid-cols-[10rem_1fr_8rem]">
+          <label className="block text-sm text-white/80">
+            Block
+            <select
+              className={inputClassName}
+              value={kind}
+              onChange={(e) => setKind(e.target.value as BlockKind)}
+              disabled={loading || busy}
+            >
+              {KIND_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="block text-sm text-white/80">
+            Name or Spotify link
+            <input
+              className={inputClassName}
+              value={value}
+              onChange={(e) => setValue(e.target.value)}
+              placeholder={kind === "context" ? "https://open.spotify.com/playlist/..." : "Name, or a Spotify link"}
+              maxLength={200}
+              required
+              disabled={loading || busy}
+            />
+          </label>
+          <label className="block text-sm text-white/80">
+            Show as
+            <select
+              className={inputClassName}
+              value={behaviour}
+              onChange={(e) => setBehaviour(e.target.value as BlockBehaviour)}
+              disabled={loading || busy}
+            >
+              <option value="mask">Private</option>
+              <option value="skip">Nothing</option>
+            </select>
+          </label>
+        </div>
+        <button
+          type="submit"
+          disabled={loading || busy || !value.trim()}
+          className="w-full rounded-lg bg-emerald-400 px-4 py-2 text-sm font-semibold text-black transition hover:bg-emerald-300 disabled:opacity-60"
+        >
+          Add block rule
+        </button>
+      </form>
+
+      {rules.length > 0 && (
+        <ul className="mt-6 divide-y divide-white/10 rounded-lg border border-white/10 bg-black/30">
+          {rules.map((rule) => (
+            <li key={rule.id} className="flex items-center justify-between gap-3 px-4 py-3 text-sm">
+              <div className="min-w-0">
+                <div className="truncate">{rule.label}</div>
+                <div className="text-xs text-white/50">
+                  {rule.kind} · {rule.behaviour === "mask" ? "shown as private" : "skipped"}
+                </div>
+              </div>
+              <button
+                type="button"
+                onClick={() => send(`/rules?id=${encodeURIComponent(rule.id)}`, "DELETE")}
+                disabled={busy}
+                className="rounded-lg border border-red-400/40 px-3 py-1.5 text-xs font-semibold text-red-100 transition hover:bg-red-400/10 disabled:opacity-40"
+              >
+                Remove
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {error && (
+        <div className="mt-4 rounded-lg border border-red-400/40 bg-red-400/10 px-4 py-3 text-sm text-red-100">
+          {error}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,197 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+type PrivacyMode = "exact" | "grid" | "city";
+
+type LocationPrivacy = {
+  mode: PrivacyMode;
+  gridDegrees: number;
+  jitterKm: number;
+};
+
+type PublishedLocation = {
+  lat: number;
+  lng: number;
+  label: string;
+  approximate: boolean;
+  precisionKm?: number;
+};
+
+type PrivacyResponse = {
+  ok?: boolean;
+  privacy?: LocationPrivacy;
+  published?: PublishedLocation;
+  error?: string;
+};
+
+const MODE_OPTIONS: { value: PrivacyMode; label: string; hint: string }[] = [
+  { value: "exact", label: "Exact", hint: "Publish the coordinates as entered." },
+  { value: "grid", label: "Grid", hint: "Snap to the centre of a lat/lng grid cell." },
+  { value: "city", label: "City", hint: "Snap to the nearest major city centroid." },
+];
+
+export function PrivacyForm() {
+  const [mode, setMode] = useState<PrivacyMode>("exact");
+  const [gridDegrees, setGridDegrees] = useState("0.5");
+  const [jitterKm, setJitterKm] = useState("0");
+  const [published, setPublished] = useState<PublishedLocation | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      try {
+        const res = await fetch("/api/admin/location/privacy", { cache: "no-store", credentials: "same-origin" });
+        const body = (await res.json()) as PrivacyResponse;
+        if (!res.ok || !body.privacy) throw new Error(body.error || `Request failed with ${res.status}`);
+        if (cancelled) return;
+        setMode(body.privacy.mode);
+        setGridDegrees(String(body.privacy.gridDegrees));
+        setJitterKm(String(body.privacy.jitterKm));
+        setPublished(body.published ?? null);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : "Unknown error";
+        if (!cancelled) setError(message);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    load();
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const onSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setStatus(null);
+    setSaving(true);
+
+    try {
+      const res = await fetch("/api/admin/location/privacy", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          mode,
+          gridDegrees: Number.parseFloat(gridDegrees),
+          jitterKm: Number.parseFloat(jitterKm) || 0,
+        }),
+        credentials: "same-origin",
+      });
+      const body = (await res.json()) as PrivacyResponse;
+
+      if (!res.ok || !body.ok) {
+        setError(body.error || "Saving privacy settings failed");
+        return;
+      }
+
+      setPublished(body.published ?? null);
+      setStatus("Privacy settings saved.");
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Unknown error";
+      setError(message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="rounded-2xl border border-white/10 bg-white/5 p-8 text-white">
+      <div className="space-y-2">
+        <h2 className="text-2xl font-semibold">Privacy</h2>
+        <p className="text-sm text-white/70">
+          Coarsening happens on the server. Visitors only ever receive the published point below.
+        </p>
+      </div>
+
+      <form onSubmit={onSubmit} className="mt-6 space-y-4">
+        <fieldset className="grid gap-2 sm:grid-cols-3" disabled={loading || saving}>
+          {MODE_OPTIONS.map((option) => (
+            <label
+              key={option.value}
+              className={`cursor-pointer rounded-lg border px-3 py-2 text-sm transition ${
+                mode === option.value ? "border-emerald-300/60 bg-emerald-300/10" : "border-white/15 bg-black/40"
+              }`}
+            >
+              <input
+                type="radio"
+                name="privacy-mode"
+                value={option.value}
+                checked={mode === option.value}
+                onChange={() => setMode(option.value)}
+                className="sr-only"
+              />
+              <div className="font-semibold">{option.label}</div>
+              <div className="text-xs text-white/60">{option.hint}</div>
+            </label>
+          ))}
+        </fieldset>
+
+        <div className="grid grid-cols-2 gap-4">
+          <label className="block text-sm text-white/80">
+            Grid size (degrees)
+            <input
+              type="number"
+              step="0.05"
+              min={0.05}
+              max={10}
+              className="mt-2 w-full rounded-lg border border-white/15 bg-black/40 px-3 py-2 text-white outline-none focus:border-emerald-300/60 disabled:opacity-50"
+              value={gridDegrees}
+              onChange={(e) => setGridDegrees(e.target.value)}
+              disabled={loading || saving || mode !== "grid"}
+            />
+          </label>
+          <label className="block text-sm text-white/80">
+            Jitter radius (km)
+            <input
+              type="number"
+              step="1"
+              min={0}
+              max={100}
+              className="mt-2 w-full rounded-lg border border-white/15 bg-black/40 px-3 py-2 text-white outline-none focus:border-emerald-300/60"
+              value={jitterKm}
+              onChange={(e) => setJitterKm(e.target.value)}
+              disabled={loading || saving}
+            />
+          </label>
+        </div>
+
+        <button
+          type="submit"
+          disabled={loading || saving}
+          className="w-full rounded-lg bg-emerald-400 px-4 py-2 text-sm font-semibold text-black transition hover:bg-emerald-300 disabled:opacity-60"
+        >
+          {saving ? "Saving..." : "Save privacy settings"}
+        </button>
+      </form>
+
+      {published && (
+        <div className="mt-4 rounded-lg border border-white/10 bg-black/30 px-4 py-3 text-xs text-white/60">
+          <div className="uppercase tracking-[0.2em] text-white/40">Published point</div>
+          <div className="mt-1 font-mono">
+            {published.lat.toFixed(4)}, {published.lng.toFixed(4)}
+            {published.approximate && published.precisionKm ? ` · ±${published.precisionKm} km` : " · exact"}
+          </div>
+        </div>
+      )}
+      {status && (
+        <div className="mt-4 rounded-lg border border-emerald-300/40 bg-emerald-300/10 px-4 py-3 text-sm text-emerald-100">
+          {status}
+        </div>
+      )}
+      {error && (
+        <div className="mt-4 rounded-lg border border-red-400/40 bg-red-400/10 px-4 py-3 text-sm text-red-100">
+          {error}
+        </div>
+      )}
+    </div>
+  );
+}
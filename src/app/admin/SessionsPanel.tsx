@@ -0,0 +1,116 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+
+type SessionRow = {
+  sid: string;
+  username: string;
+  createdAt: number;
+  expiresAt: number;
+  lastSeenAt?: number;
+  revokedAt?: number;
+  userAgent?: string;
+  ip?: string;
+  current: boolean;
+};
+
+const formatTime = (ms: number | undefined) => (ms ? new Date(ms).toLocaleString() : "—");
+
+export function SessionsPanel() {
+  const [sessions, setSessions] = useState<SessionRow[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch("/api/admin/sessions", { cache: "no-store", credentials: "same-origin" });
+      const body = (await res.json()) as { sessions?: SessionRow[]; error?: string };
+      if (!res.ok || !body.sessions) throw new Error(body.error || `Request failed with ${res.status}`);
+      setSessions(body.sessions);
+      setError(null);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Unknown error";
+      setError(message);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const revoke = async (url: string) => {
+    setBusy(true);
+    try {
+      const res = await fetch(url, { method: "DELETE", credentials: "same-origin" });
+      const body = (await res.json()) as { ok?: boolean; error?: string };
+      if (!res.ok || !body.ok) throw new Error(body.error || "Revoking failed");
+      await load();
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Unknown error";
+      setError(message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const otherActive = sessions.filter((s) => !s.current && !s.revokedAt).length;
+
+  return (
+    <div className="rounded-2xl border border-white/10 bg-white/5 p-8 text-white">
+      <div className="flex items-start justify-between gap-4">
+        <div className="space-y-2">
+          <h2 className="text-2xl font-semibold">Sessions</h2>
+          <p className="text-sm text-white/70">Every signed-in browser. Revoking one signs it out on its next request.</p>
+        </div>
+        <button
+          type="button"
+          onClick={() => revoke("/api/admin/sessions")}
+          disabled={busy || otherActive === 0}
+          className="whitespace-nowrap rounded-lg border border-white/15 px-3 py-2 text-xs font-semibold transition hover:bg-white/10 disabled:opacity-40"
+        >
+          Sign out others
+        </button>
+      </div>
+
+      <ul className="mt-6 space-y-2">
+        {sessions.map((session) => (
+          <li
+            key={session.sid}
+            className={`flex items-center justify-between gap-4 rounded-lg border px-4 py-3 text-sm ${
+              session.revokedAt ? "border-white/5 bg-black/20 text-white/40" : "border-white/10 bg-black/30"
+            }`}
+          >
+            <div className="min-w-0">
+              <div className="truncate">
+                <span className="font-semibold">{session.username}</span> · {session.userAgent || "Unknown browser"}
+                {session.current && <span className="ml-2 text-xs text-emerald-300">this browser</span>}
+              </div>
+              <div className="text-xs text-white/50">
+                {session.ip ? `${session.ip} · ` : ""}signed in {formatTime(session.createdAt)} · last seen{" "}
+                {formatTime(session.lastSeenAt)}
+                {session.revokedAt ? ` · revoked ${formatTime(session.revokedAt)}` : ""}
+              </div>
+            </div>
+            {!session.revokedAt && !session.current && (
+              <button
+                type="button"
+                onClick={() => revoke(`/api/admin/sessions/${encodeURIComponent(session.sid)}`)}
+                disabled={busy}
+                className="rounded-lg border border-red-400/40 px-3 py-1 text-xs text-red-100 transition hover:bg-red-400/10 disabled:opacity-40"
+              >
+                Revoke
+              </button>
+            )}
+          </li>
+        ))}
+        {sessions.length === 0 && !error && <li className="text-sm text-white/50">Loading sessions…</li>}
+      </ul>
+
+      {error && (
+        <div className="mt-4 rounded-lg border border-red-400/40 bg-red-400/10 px-4 py-3 text-sm text-red-100">
+          {error}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,31 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+
+export function SignOutButton() {
+  const router = useRouter();
+  const [loading, setLoading] = useState(false);
+
+  const onSignOut = async () => {
+    setLoading(true);
+    try {
+      await fetch("/api/admin/login", { method: "DELETE", credentials: "same-origin" });
+    } finally {
+      // Even if the request failed, the login page re-checks the cookie on the server.
+      router.replace("/admin");
+      router.refresh();
+    }
+  };
+
+  return (
+    <button
+      type="button"
+      onClick={onSignOut}
+      disabled={loading}
+      className="rounded-lg border border-white/15 px-4 py-2 text-sm font-semibold text-white transition hover:bg-white/10 disabled:opacity-60"
+    >
+      {loading ? "Signing out..." : "Sign out"}
+    </button>
+  );
+}
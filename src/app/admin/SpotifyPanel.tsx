@@ -0,0 +1,126 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+
+type ConnectionStatus = {
+  connected: boolean;
+  source: "store" | "env" | null;
+  account?: { id: string; displayName?: string };
+  scopes?: string[];
+  connectedAt?: string;
+  connectedBy?: string;
+  error?: string;
+  errorAt?: string;
+};
+
+type Props = {
+  // Outcome of the OAuth round-trip, from the callback's redirect query.
+  notice?: { outcome: string; reason?: string };
+};
+
+const AUTHORIZE_URL = "/api/admin/spotify/authorize";
+
+export function SpotifyPanel({ notice }: Props) {
+  const [status, setStatus] = useState<ConnectionStatus | null>(null);
+  const [error, setError] = useState<string | null>(
+    notice?.outcome === "error" ? `Spotify connection failed (${notice.reason ?? "unknown error"}).` : null
+  );
+  const [busy, setBusy] = useState(false);
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch("/api/admin/spotify", { cache: "no-store", credentials: "same-origin" });
+      const body = (await res.json()) as ConnectionStatus & { error?: string };
+      if (!res.ok) throw new Error(body.error || `Request failed with ${res.status}`);
+      setStatus(body);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Unknown error";
+      setError(message);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const disconnect = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/admin/spotify", { method: "DELETE", credentials: "same-origin" });
+      const body = (await res.json()) as ConnectionStatus & { error?: string };
+      if (!res.ok) throw new Error(body.error || `Request failed with ${res.status}`);
+      setStatus(body);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Unknown error";
+      setError(message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const accountName = status?.account?.displayName || status?.account?.id;
+
+  return (
+    <div className="rounded-2xl border border-white/10 bg-white/5 p-8 text-white">
+      <div className="space-y-2">
+        <h2 className="text-2xl font-semibold">Spotify</h2>
+        <p className="text-sm text-white/70">
+          {!status
+            ? "Checking connection..."
+            : status.source === "store"
+              ? `Connected as ${accountName}${
+                  status.connectedAt ? ` since ${new Date(status.connectedAt).toLocaleDateString()}` : ""
+                }.`
+              : status.source === "env"
+                ? "Using SPOTIFY_REFRESH_TOKEN from the environment. Connect here to manage it from the dashboard."
+                : "Not connected. The now-playing card stays empty until an account is connected."}
+        </p>
+      </div>
+
+      {status?.error && (
+        <div className="mt-4 rounded-lg border border-amber-300/40 bg-amber-300/10 px-4 py-3 text-sm text-amber-50">
+          <div className="font-semibold">Spotify rejected the stored token. Reconnect to resume.</div>
+          <div className="mt-1 break-words text-xs text-amber-50/80">{status.error}</div>
+        </div>
+      )}
+
+      {notice?.outcome === "connected" && status?.source === "store" && !status.error && (
+        <div className="mt-4 rounded-lg border border-emerald-300/40 bg-emerald-300/10 px-4 py-3 text-sm text-emerald-100">
+          Spotify account connected.
+        </div>
+      )}
+
+      {status && (
+        <div className="mt-6 flex flex-wrap items-center gap-3">
+          <a
+            href={AUTHORIZE_URL}
+            className="rounded-lg bg-emerald-400 px-4 py-2 text-sm font-semibold text-black transition hover:bg-emerald-300"
+          >
+            {status.source === "store" ? "Reconnect" : "Connect Spotify"}
+          </a>
+          {status.source === "store" && (
+            <button
+              type="button"
+              onClick={disconnect}
+              disabled={busy}
+              className="rounded-lg border border-red-400/40 px-3 py-2 text-xs font-semibold text-red-100 transition hover:bg-red-400/10 disabled:opacity-40"
+            >
+              Disconnect
+            </button>
+          )}
+        </div>
+      )}
+
+      {status?.scopes && status.scopes.length > 0 && (
+        <div className="mt-4 text-xs text-white/50">Scopes: {status.scopes.join(", ")}</div>
+      )}
+
+      {error && (
+        <div className="mt-4 rounded-lg border border-red-400/40 bg-red-400/10 px-4 py-3 text-sm text-red-100">
+          {error}
+        </div>
+      )}
+    </div>
+  );
+}
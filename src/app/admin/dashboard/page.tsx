@@ -0,0 +1,63 @@
+import { cookies } from "next/headers";
+import { redirect } from "next/navigation";
+import { findAdminUser, roleAtLeast } from "@/lib/adminUsers";
+import { getAdminSession, sessionCookieName } from "@/lib/auth";
+import { AnalyticsPanel } from "../AnalyticsPanel";
+import { GuestbookPanel } from "../GuestbookPanel";
+import { LocationForm } from "../LocationForm";
+import { ManualNowPlayingForm } from "../ManualNowPlayingForm";
+import { MfaPanel } from "../MfaPanel";
+import { NowPlayingPrivacyPanel } from "../NowPlayingPrivacyPanel";
+import { PrivacyForm } from "../PrivacyForm";
+import { SessionsPanel } from "../SessionsPanel";
+import { SignOutButton } from "../SignOutButton";
+import { SpotifyPanel } from "../SpotifyPanel";
+
+export const metadata = {
+  title: "Dashboard | Admin",
+};
+
+export const dynamic = "force-dynamic";
+
+type Props = {
+  searchParams: Promise<{ spotify?: string; reason?: string }>;
+};
+
+export default async function AdminDashboardPage({ searchParams }: Props) {
+  // The proxy already redirects anonymous visitors; this covers a session revoked in between.
+  const cookieStore = await cookies();
+  const current = await getAdminSession(cookieStore.get(sessionCookieName)?.value);
+  if (!current) redirect("/admin");
+
+  const user = findAdminUser(current.session.uid);
+  const { spotify, reason } = await searchParams;
+
+  return (
+    <main className="min-h-screen bg-neutral-950 px-6 py-16 sm:px-10">
+      <div className="mx-auto flex max-w-4xl flex-col gap-8">
+        <div className="flex flex-wrap items-end justify-between gap-4 text-white">
+          <div className="space-y-2">
+            <div className="text-sm uppercase tracking-[0.2em] text-white/50">Admin</div>
+            <h1 className="text-4xl font-semibold tracking-tight sm:text-5xl">Dashboard</h1>
+            <p className="text-white/70">
+              Signed in as {user?.username ?? current.session.uid} ({current.session.role}).
+            </p>
+          </div>
+          <SignOutButton />
+        </div>
+
+        <LocationForm />
+        <PrivacyForm />
+        {roleAtLeast(current.session.role, "admin") && (
+          <SpotifyPanel notice={spotify ? { outcome: spotify, reason } : undefined} />
+        )}
+        <ManualNowPlayingForm />
+        <NowPlayingPrivacyPanel />
+        <GuestbookPanel />
+        <AnalyticsPanel />
+        <SessionsPanel />
+        <MfaPanel />
+      </div>
+    </main>
+  );
+}
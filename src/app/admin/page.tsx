@@ -1,13 +1,18 @@
+import { cookies } from "next/headers";
+import { redirect } from "next/navigation";
+import { getAdminSession, sessionCookieName } from "@/lib/auth";
 import { LoginPanel } from "./LoginPanel";
 
 export const metadata = {
-  title: "Admin | Juric",
+  title: "Admin",
 };
 
 export const dynamic = "force-dynamic";
 
-export default function AdminPage() {
-  const authenticated = false;
+export default async function AdminPage() {
+  const cookieStore = await cookies();
+  const current = await getAdminSession(cookieStore.get(sessionCookieName)?.value);
+  if (current) redirect("/admin/dashboard");
 
   return (
     <main className="min-h-screen bg-neutral-950 px-6 py-16 sm:px-10">
@@ -20,7 +25,7 @@ export default function AdminPage() {
           </p>
         </div>
 
-        <LoginPanel initialAuthenticated={authenticated} />
+        <LoginPanel />
       </div>
     </main>
   );
@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server";
+import type { NextRequest } from "next/server";
+import { getAdminSession, sessionCookieName } from "@/lib/auth";
+import { MAX_REPORT_DAYS, getVisitAnalytics, visitRowsToCsv } from "@/lib/visitAnalytics";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+const DEFAULT_DAYS = 30;
+
+// Query: ?days=1..365 (default 30), &format=csv for a download of the per-day rows.
+export async function GET(req: NextRequest) {
+  if (!(await getAdminSession(req.cookies.get(sessionCookieName)?.value))) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const rawDays = req.nextUrl.searchParams.get("days");
+  const days = rawDays === null ? DEFAULT_DAYS : Number(rawDays);
+  if (!Number.isInteger(days) || days < 1 || days > MAX_REPORT_DAYS) {
+    return NextResponse.json({ error: `days must be a whole number from 1 to ${MAX_REPORT_DAYS}` }, { status: 400 });
+  }
+
+  const report = await getVisitAnalytics(days);
+  if (req.nextUrl.searchParams.get("format") === "csv") {
+    return new Response(visitRowsToCsv(report.rows), {
+      headers: {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": `attachment; filename="visits-${report.from}-to-${report.to}.csv"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  }
+  return NextResponse.json(report, { headers: { "Cache-Control": "no-store" } });
+}
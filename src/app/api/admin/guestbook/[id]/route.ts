@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server";
+import type { NextRequest } from "next/server";
+import { getAdminSession, sessionCookieName } from "@/lib/auth";
+import { deleteGuestbookNote, moderateGuestbookNote, parseNoteStatus } from "@/lib/guestbook";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+type Context = { params: Promise<{ id: string }> };
+
+// Body: { status: "approved" | "hidden" | "pending" }
+export async function PATCH(req: NextRequest, { params }: Context) {
+  const current = await getAdminSession(req.cookies.get(sessionCookieName)?.value);
+  if (!current) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  let input: unknown;
+  try {
+    input = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+  }
+
+  const status = parseNoteStatus((input as { status?: unknown } | null)?.status);
+  if (!status) {
+    return NextResponse.json({ error: "status must be one of pending, approved, hidden" }, { status: 400 });
+  }
+
+  const { id } = await params;
+  const note = await moderateGuestbookNote(id, status, current.session.uid);
+  if (!note) {
+    return NextResponse.json({ error: "Note not found" }, { status: 404 });
+  }
+  return NextResponse.json({ note });
+}
+
+export async function DELETE(req: NextRequest, { params }: Context) {
+  if (!(await getAdminSession(req.cookies.get(sessionCookieName)?.value))) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await params;
+  if (!(await deleteGuestbookNote(id))) {
+    return NextResponse.json({ error: "Note not found" }, { status: 404 });
+  }
+  return NextResponse.json({ ok: true });
+}
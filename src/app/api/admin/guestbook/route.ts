@@ -0,0 +1,16 @@
+import { NextResponse } from "next/server";
+import type { NextRequest } from "next/server";
+import { getAdminSession, sessionCookieName } from "@/lib/auth";
+import { listGuestbookNotes } from "@/lib/guestbook";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+export async function GET(req: NextRequest) {
+  if (!(await getAdminSession(req.cookies.get(sessionCookieName)?.value))) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const notes = await listGuestbookNotes();
+  return NextResponse.json({ notes }, { headers: { "Cache-Control": "no-store" } });
+}
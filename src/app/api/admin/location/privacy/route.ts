@@ -0,0 +1,46 @@
+import { NextResponse } from "next/server";
+import type { NextRequest } from "next/server";
+import { sessionCookieName, validateAdminToken } from "@/lib/auth";
+import { getPublicLocation } from "@/lib/location";
+import { getLocationPrivacy, parsePrivacyInput, setLocationPrivacy } from "@/lib/locationPrivacy";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+const isAuthorized = async (req: NextRequest) => validateAdminToken(req.cookies.get(sessionCookieName)?.value);
+
+export async function GET(req: NextRequest) {
+  if (!(await isAuthorized(req))) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const [privacy, published] = await Promise.all([getLocationPrivacy(), getPublicLocation()]);
+  return NextResponse.json({ privacy, published }, { headers: { "Cache-Control": "no-store" } });
+}
+
+export async function PUT(req: NextRequest) {
+  if (!(await isAuthorized(req))) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  let input: unknown;
+  try {
+    input = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+  }
+
+  const parsed = parsePrivacyInput(input);
+  if (!parsed.ok) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+
+  try {
+    const privacy = await setLocationPrivacy(parsed.value);
+    const published = await getPublicLocation();
+    return NextResponse.json({ ok: true, privacy, published });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return NextResponse.json({ error: "Failed to save privacy settings", message }, { status: 500 });
+  }
+}
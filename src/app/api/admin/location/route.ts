@@ -0,0 +1,44 @@
+import { NextResponse } from "next/server";
+import type { NextRequest } from "next/server";
+import { sessionCookieName, validateAdminToken } from "@/lib/auth";
+import { getOwnerLocation, parseLocationInput, setOwnerLocation } from "@/lib/location";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+const isAuthorized = async (req: NextRequest) => validateAdminToken(req.cookies.get(sessionCookieName)?.value);
+
+export async function GET(req: NextRequest) {
+  if (!(await isAuthorized(req))) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const location = await getOwnerLocation();
+  return NextResponse.json(location, { headers: { "Cache-Control": "no-store" } });
+}
+
+export async function PUT(req: NextRequest) {
+  if (!(await isAuthorized(req))) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  let input: unknown;
+  try {
+    input = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+  }
+
+  const parsed = parseLocationInput(input);
+  if (!parsed.ok) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+
+  try {
+    const location = await setOwnerLocation(parsed.value);
+    return NextResponse.json({ ok: true, location });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return NextResponse.json({ error: "Failed to save location", message }, { status: 500 });
+  }
+}
@@ -1,53 +1,136 @@
 import { NextResponse } from "next/server";
 import type { NextRequest } from "next/server";
+import { isMfaEnabled, parseMfaCodeInput, verifyMfa } from "@/lib/adminMfa";
+import { authenticateAdminUser, findAdminUser, hasAdminUsers } from "@/lib/adminUsers";
+import type { AdminRole } from "@/lib/adminUsers";
 import {
+  getAdminSession,
   issueAdminToken,
+  issueMfaChallenge,
+  revokeAdminToken,
+  sessionCookie,
   sessionCookieName,
   sessionMaxAgeSeconds,
-  validateAdminToken,
+  verifyMfaChallenge,
 } from "@/lib/auth";
+import { clientIpFromHeaders } from "@/lib/clientIp";
+import { checkLoginAllowed, recordLoginFailure, recordLoginSuccess } from "@/lib/loginThrottle";
 
 export const dynamic = "force-dynamic";
 export const runtime = "nodejs";
 
-const getPassword = () => process.env.ADMIN_PASSWORD || null;
+const setSessionCookie = (res: NextResponse, token: string, maxAge = sessionMaxAgeSeconds) => {
+  res.cookies.set(sessionCookie(token, maxAge));
+};
 
 export async function GET(req: NextRequest) {
-  const existing = req.cookies.get(sessionCookieName)?.value;
-  const authenticated = validateAdminToken(existing);
-  return NextResponse.json({ authenticated });
+  const current = await getAdminSession(req.cookies.get(sessionCookieName)?.value);
+  return NextResponse.json({
+    authenticated: current !== null,
+    user: current ? { id: current.session.uid, role: current.session.role } : undefined,
+  });
 }
 
+const tooManyAttempts = (retryAfterSeconds: number) =>
+  NextResponse.json(
+    { error: "Too many failed attempts. Try again later.", retryAfterSeconds },
+    { status: 429, headers: { "Retry-After": String(retryAfterSeconds) } }
+  );
+
+// Unchecked until each step validates the fields it uses.
+type LoginBody = {
+  username?: unknown;
+  password?: unknown;
+  // Second step, after the password was accepted for an account with TOTP enabled.
+  challenge?: unknown;
+  code?: unknown;
+  recoveryCode?: unknown;
+};
+
+const invalidCredentials = (ip: string, error = "Invalid credentials") => {
+  const retryAfterSeconds = recordLoginFailure(ip);
+  if (retryAfterSeconds > 0) return tooManyAttempts(retryAfterSeconds);
+  return NextResponse.json({ error }, { status: 401 });
+};
+
+const startSession = async (
+  req: NextRequest,
+  ip: string,
+  user: { id: string; username: string; role: AdminRole }
+) => {
+  recordLoginSuccess(ip);
+  const token = await issueAdminToken(user, {
+    userAgent: req.headers.get("user-agent")?.slice(0, 200) || undefined,
+    ip: ip || undefined,
+  });
+  const res = NextResponse.json({ ok: true, user: { id: user.id, role: user.role } });
+  setSessionCookie(res, token);
+  return res;
+};
+
 export async function POST(req: NextRequest) {
-  let password: string | undefined;
+  const ip = clientIpFromHeaders(req.headers);
+  const throttle = checkLoginAllowed(ip);
+  if (!throttle.allowed) {
+    return tooManyAttempts(throttle.retryAfterSeconds);
+  }
+
+  let body: LoginBody;
   try {
-    ({ password } = (await req.json()) as { password?: string });
+    body = (await req.json()) as LoginBody;
   } catch {
     return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
   }
+  if (!body || typeof body !== "object") {
+    return NextResponse.json({ error: "Expected an object body" }, { status: 400 });
+  }
 
-  const requiredPassword = getPassword();
-  if (!requiredPassword) {
+  if (body.challenge) {
+    if (typeof body.challenge !== "string") {
+      return NextResponse.json({ error: "challenge must be a string" }, { status: 400 });
+    }
+    const codes = parseMfaCodeInput(body);
+    if (!codes.ok) return NextResponse.json({ error: codes.error }, { status: 400 });
+
+    const uid = verifyMfaChallenge(body.challenge);
+    const user = uid ? findAdminUser(uid) : null;
+    if (!user) {
+      return NextResponse.json(
+        { error: "Sign-in expired. Enter your password again.", challengeExpired: true },
+        { status: 401 }
+      );
+    }
+    const verified = await verifyMfa(user.id, codes.value);
+    if (!verified) return invalidCredentials(ip, "Invalid verification code");
+    return startSession(req, ip, user);
+  }
+
+  const { username, password } = body;
+  if (typeof username !== "string" || typeof password !== "string") {
+    return NextResponse.json({ error: "username and password must be strings" }, { status: 400 });
+  }
+
+  if (!hasAdminUsers()) {
     return NextResponse.json(
-      { error: "ADMIN_PASSWORD is not set." },
+      { error: "No admin users configured. Set ADMIN_USERS or ADMIN_PASSWORD_HASH." },
       { status: 500 }
     );
   }
 
-  if (!password || password !== requiredPassword) {
-    return NextResponse.json({ error: "Invalid credentials" }, { status: 401 });
+  const user = password ? await authenticateAdminUser(username.trim(), password) : null;
+  if (!user) return invalidCredentials(ip);
+
+  // No cookie until the second factor checks out; the client echoes the challenge back with its code.
+  if (await isMfaEnabled(user.id)) {
+    return NextResponse.json({ mfaRequired: true, challenge: issueMfaChallenge(user.id) });
   }
 
-  const token = issueAdminToken();
+  return startSession(req, ip, user);
+}
+
+export async function DELETE(req: NextRequest) {
+  await revokeAdminToken(req.cookies.get(sessionCookieName)?.value);
   const res = NextResponse.json({ ok: true });
-  res.cookies.set({
-    name: sessionCookieName,
-    value: token,
-    httpOnly: true,
-    sameSite: "strict",
-    secure: process.env.NODE_ENV === "production",
-    path: "/",
-    maxAge: sessionMaxAgeSeconds,
-  });
+  setSessionCookie(res, "", 0);
   return res;
 }
@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server";
+import type { NextRequest } from "next/server";
+import { parseMfaCodeInput, regenerateRecoveryCodes, verifyMfa } from "@/lib/adminMfa";
+import { getAdminSession, sessionCookieName } from "@/lib/auth";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+// Replace every recovery code; needs a current TOTP code so a stolen session alone can't mint new ones.
+export async function POST(req: NextRequest) {
+  const current = await getAdminSession(req.cookies.get(sessionCookieName)?.value);
+  if (!current) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  let input: unknown;
+  try {
+    input = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+  }
+
+  const parsed = parseMfaCodeInput(input);
+  if (!parsed.ok) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+  const { code } = parsed.value;
+  if (!code || !(await verifyMfa(current.session.uid, { code }))) {
+    return NextResponse.json({ error: "Invalid verification code" }, { status: 400 });
+  }
+
+  const recoveryCodes = await regenerateRecoveryCodes(current.session.uid);
+  return NextResponse.json({ ok: true, recoveryCodes }, { headers: { "Cache-Control": "no-store" } });
+}
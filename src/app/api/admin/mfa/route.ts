@@ -0,0 +1,94 @@
+import { NextResponse } from "next/server";
+import type { NextRequest } from "next/server";
+import QRCode from "qrcode";
+import {
+  beginMfaEnrollment,
+  confirmMfaEnrollment,
+  disableMfa,
+  getMfaStatus,
+  parseMfaCodeInput,
+  verifyMfa,
+} from "@/lib/adminMfa";
+import { findAdminUser } from "@/lib/adminUsers";
+import { getAdminSession, sessionCookieName } from "@/lib/auth";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+const currentUser = async (req: NextRequest) => {
+  const current = await getAdminSession(req.cookies.get(sessionCookieName)?.value);
+  return current ? findAdminUser(current.session.uid) : null;
+};
+
+const readCodes = async (req: NextRequest) => {
+  try {
+    return parseMfaCodeInput(await req.json());
+  } catch {
+    return { ok: false as const, error: "Invalid JSON" };
+  }
+};
+
+export async function GET(req: NextRequest) {
+  const user = await currentUser(req);
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const status = await getMfaStatus(user.id);
+  return NextResponse.json(status, { headers: { "Cache-Control": "no-store" } });
+}
+
+// Start enrollment: a fresh secret, shown as a QR code and otpauth:// URI until confirmed.
+export async function POST(req: NextRequest) {
+  const user = await currentUser(req);
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  if ((await getMfaStatus(user.id)).enabled) {
+    return NextResponse.json({ error: "Two-factor authentication is already enabled" }, { status: 409 });
+  }
+
+  const { secret, uri } = await beginMfaEnrollment(user.id, user.username);
+  const qr = await QRCode.toDataURL(uri, { margin: 1, width: 220 });
+  return NextResponse.json({ secret, uri, qr }, { headers: { "Cache-Control": "no-store" } });
+}
+
+// Confirm enrollment with a first code from the authenticator app.
+export async function PUT(req: NextRequest) {
+  const user = await currentUser(req);
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const body = await readCodes(req);
+  if (!body.ok) {
+    return NextResponse.json({ error: body.error }, { status: 400 });
+  }
+  if (!body.value.code) {
+    return NextResponse.json({ error: "code is required" }, { status: 400 });
+  }
+
+  const recoveryCodes = await confirmMfaEnrollment(user.id, body.value.code);
+  if (!recoveryCodes) {
+    return NextResponse.json({ error: "Invalid verification code" }, { status: 400 });
+  }
+  return NextResponse.json({ ok: true, recoveryCodes }, { headers: { "Cache-Control": "no-store" } });
+}
+
+export async function DELETE(req: NextRequest) {
+  const user = await currentUser(req);
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const body = await readCodes(req);
+  if (!body.ok) {
+    return NextResponse.json({ error: body.error }, { status: 400 });
+  }
+  if (!(await verifyMfa(user.id, body.value))) {
+    return NextResponse.json({ error: "Invalid verification code" }, { status: 400 });
+  }
+
+  await disableMfa(user.id);
+  return NextResponse.json({ ok: true });
+}
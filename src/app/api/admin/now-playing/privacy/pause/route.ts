@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server";
+import type { NextRequest } from "next/server";
+import { getAdminSession, sessionCookieName } from "@/lib/auth";
+import { parsePauseInput, pauseBroadcasting, resumeBroadcasting } from "@/lib/nowPlaying";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+const currentSession = (req: NextRequest) => getAdminSession(req.cookies.get(sessionCookieName)?.value);
+
+// Hides now-playing for `minutes` from now. Pausing again while paused extends the pause.
+export async function PUT(req: NextRequest) {
+  const current = await currentSession(req);
+  if (!current) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  let input: unknown;
+  try {
+    input = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+  }
+
+  const parsed = parsePauseInput(input);
+  if (!parsed.ok) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+
+  const { pause, rules } = await pauseBroadcasting(parsed.value, current.session.uid);
+  return NextResponse.json({ pause, rules });
+}
+
+export async function DELETE(req: NextRequest) {
+  if (!(await currentSession(req))) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { pause, rules } = await resumeBroadcasting();
+  return NextResponse.json({ pause, rules });
+}
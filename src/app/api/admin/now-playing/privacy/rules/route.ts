@@ -0,0 +1,51 @@
+import { NextResponse } from "next/server";
+import type { NextRequest } from "next/server";
+import { getAdminSession, sessionCookieName } from "@/lib/auth";
+import { addBlockRule, parseBlockRuleInput, removeBlockRule } from "@/lib/nowPlaying";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+const currentSession = (req: NextRequest) => getAdminSession(req.cookies.get(sessionCookieName)?.value);
+
+// Body: { kind: "artist" | "track" | "album" | "context", value: name or Spotify link, behaviour?: "mask" | "skip" }
+export async function POST(req: NextRequest) {
+  const current = await currentSession(req);
+  if (!current) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  let input: unknown;
+  try {
+    input = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+  }
+
+  const parsed = parseBlockRuleInput(input);
+  if (!parsed.ok) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+
+  try {
+    const { pause, rules } = await addBlockRule(parsed.value, current.session.uid);
+    return NextResponse.json({ pause, rules });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return NextResponse.json({ error: message }, { status: 400 });
+  }
+}
+
+export async function DELETE(req: NextRequest) {
+  if (!(await currentSession(req))) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const id = req.nextUrl.searchParams.get("id");
+  if (!id) {
+    return NextResponse.json({ error: "id is required" }, { status: 400 });
+  }
+
+  const { pause, rules } = await removeBlockRule(id);
+  return NextResponse.json({ pause, rules });
+}
@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server";
+import type { NextRequest } from "next/server";
+import { getAdminSession, sessionCookieName } from "@/lib/auth";
+import { clearManualTrack, getManualTrack, parseManualTrackInput, setManualTrack } from "@/lib/nowPlaying";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+const currentSession = (req: NextRequest) => getAdminSession(req.cookies.get(sessionCookieName)?.value);
+
+export async function GET(req: NextRequest) {
+  if (!(await currentSession(req))) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  return NextResponse.json({ manual: await getManualTrack() }, { headers: { "Cache-Control": "no-store" } });
+}
+
+// Sets what the "manual" now-playing provider reports until the track's duration (or an hour) runs out.
+export async function POST(req: NextRequest) {
+  const current = await currentSession(req);
+  if (!current) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  let input: unknown;
+  try {
+    input = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+  }
+
+  const parsed = parseManualTrackInput(input);
+  if (!parsed.ok) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+
+  const manual = await setManualTrack(parsed.value, current.session.uid);
+  return NextResponse.json({ manual });
+}
+
+export async function DELETE(req: NextRequest) {
+  if (!(await currentSession(req))) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  await clearManualTrack();
+  return NextResponse.json({ manual: null });
+}
@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server";
+import type { NextRequest } from "next/server";
+import { getSessionRecord, revokeSession } from "@/lib/adminSessions";
+import { roleAtLeast } from "@/lib/adminUsers";
+import { getAdminSession, sessionCookieName } from "@/lib/auth";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+export async function DELETE(req: NextRequest, { params }: { params: Promise<{ sid: string }> }) {
+  const current = await getAdminSession(req.cookies.get(sessionCookieName)?.value);
+  if (!current) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { sid } = await params;
+  const record = await getSessionRecord(sid);
+  if (record && record.userId !== current.session.uid && !roleAtLeast(current.session.role, "admin")) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const revoked = await revokeSession(sid);
+  if (!revoked) {
+    return NextResponse.json({ error: "Session not found" }, { status: 404 });
+  }
+  return NextResponse.json({ ok: true });
+}
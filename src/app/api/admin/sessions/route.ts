@@ -0,0 +1,40 @@
+import { NextResponse } from "next/server";
+import type { NextRequest } from "next/server";
+import { listSessions, revokeOtherSessions } from "@/lib/adminSessions";
+import { roleAtLeast } from "@/lib/adminUsers";
+import { getAdminSession, sessionCookieName } from "@/lib/auth";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+export async function GET(req: NextRequest) {
+  const current = await getAdminSession(req.cookies.get(sessionCookieName)?.value);
+  if (!current) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  // Admins see every account's sessions; editors only their own.
+  const scope = roleAtLeast(current.session.role, "admin") ? undefined : current.session.uid;
+  const sessions = await listSessions(scope);
+  return NextResponse.json(
+    {
+      sessions: sessions.map((record) => ({
+        ...record,
+        current: record.sid === current.session.sid,
+      })),
+    },
+    { headers: { "Cache-Control": "no-store" } }
+  );
+}
+
+// Sign out everywhere else.
+export async function DELETE(req: NextRequest) {
+  const current = await getAdminSession(req.cookies.get(sessionCookieName)?.value);
+  if (!current) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const scope = roleAtLeast(current.session.role, "admin") ? undefined : current.session.uid;
+  const revoked = await revokeOtherSessions(current.session.sid, scope);
+  return NextResponse.json({ ok: true, revoked });
+}
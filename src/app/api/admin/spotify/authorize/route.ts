@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server";
+import type { NextRequest } from "next/server";
+import { roleAtLeast } from "@/lib/adminUsers";
+import { getAdminSession, issueOAuthState, oauthStateMaxAgeSeconds, sessionCookieName } from "@/lib/auth";
+import { buildSpotifyAuthorizeUrl, spotifyRedirectUri, spotifyStateCookieName } from "@/lib/spotifyConnection";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+// Navigated to from the dashboard, so it answers with redirects rather than JSON.
+export async function GET(req: NextRequest) {
+  const current = await getAdminSession(req.cookies.get(sessionCookieName)?.value);
+  if (!current || !roleAtLeast(current.session.role, "admin")) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  let authorizeUrl: string;
+  const state = issueOAuthState(current.session.uid);
+  try {
+    authorizeUrl = buildSpotifyAuthorizeUrl(state, spotifyRedirectUri(req.nextUrl.origin));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+
+  const res = NextResponse.redirect(authorizeUrl);
+  // Lax, unlike the session cookie, so it survives the top-level redirect back from Spotify.
+  res.cookies.set({
+    name: spotifyStateCookieName,
+    value: state,
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/api/admin/spotify/callback",
+    maxAge: oauthStateMaxAgeSeconds,
+  });
+  return res;
+}
@@ -0,0 +1,67 @@
+import { NextResponse } from "next/server";
+import type { NextRequest } from "next/server";
+import { findAdminUser, roleAtLeast } from "@/lib/adminUsers";
+import { verifyOAuthState } from "@/lib/auth";
+import { escapeHtml } from "@/lib/html";
+import { completeSpotifyAuthorization, spotifyRedirectUri, spotifyStateCookieName } from "@/lib/spotifyConnection";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+// Spotify redirects here cross-site, so the strict session cookie is missing and the proxy lets this
+// route through. The state must match the lax cookie set by /authorize and carry a valid signature.
+export async function GET(req: NextRequest) {
+  const params = req.nextUrl.searchParams;
+  const state = params.get("state");
+  const cookieState = req.cookies.get(spotifyStateCookieName)?.value;
+
+  // A redirect would still belong to the cross-site chain that started on Spotify, so the browser would
+  // withhold the strict session cookie and the proxy would bounce the dashboard to the login page.
+  // A page of our own that refreshes to the dashboard starts a fresh, same-site navigation instead.
+  const finish = (outcome: "connected" | "error", reason?: string) => {
+    const target = new URL("/admin/dashboard", req.nextUrl.origin);
+    target.searchParams.set("spotify", outcome);
+    if (reason) target.searchParams.set("reason", reason);
+    const href = escapeHtml(target.pathname + target.search);
+    const html = `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta http-equiv="refresh" content="0;url=${href}">
+<title>Back to the dashboard</title>
+</head>
+<body>
+<p><a href="${href}">Continue to the dashboard</a></p>
+</body>
+</html>
+`;
+    const res = new NextResponse(html, {
+      headers: {
+        "Content-Type": "text/html; charset=utf-8",
+        "Cache-Control": "no-store",
+        // This URL still carries Spotify's authorization code; don't pass it on.
+        "Referrer-Policy": "no-referrer",
+      },
+    });
+    res.cookies.set({ name: spotifyStateCookieName, value: "", path: "/api/admin/spotify/callback", maxAge: 0 });
+    return res;
+  };
+
+  const uid = state && state === cookieState ? verifyOAuthState(state) : null;
+  const user = uid ? findAdminUser(uid) : null;
+  if (!user || !roleAtLeast(user.role, "admin")) return finish("error", "invalid_state");
+
+  const denied = params.get("error");
+  if (denied) return finish("error", denied.slice(0, 64));
+
+  const code = params.get("code");
+  if (!code) return finish("error", "missing_code");
+
+  try {
+    await completeSpotifyAuthorization(code, spotifyRedirectUri(req.nextUrl.origin), user.id);
+  } catch (error) {
+    console.error("Spotify authorization failed", error);
+    return finish("error", "exchange_failed");
+  }
+  return finish("connected");
+}
@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server";
+import type { NextRequest } from "next/server";
+import { sessionCookieName, validateAdminToken } from "@/lib/auth";
+import { clearSpotifyConnection, getSpotifyConnectionStatus } from "@/lib/spotifyConnection";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+// Connecting or disconnecting the account changes what the public site shows, so it's admin-only.
+const isAuthorized = async (req: NextRequest) =>
+  validateAdminToken(req.cookies.get(sessionCookieName)?.value, "admin");
+
+export async function GET(req: NextRequest) {
+  if (!(await isAuthorized(req))) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  return NextResponse.json(await getSpotifyConnectionStatus(), { headers: { "Cache-Control": "no-store" } });
+}
+
+export async function DELETE(req: NextRequest) {
+  if (!(await isAuthorized(req))) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  await clearSpotifyConnection();
+  return NextResponse.json(await getSpotifyConnectionStatus());
+}
@@ -0,0 +1,62 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { clientIpFromHeaders } from "@/lib/clientIp";
+import { addGuestbookNote, getApprovedNotes, isHoneypotFilled, parseGuestbookInput } from "@/lib/guestbook";
+import { lookupIpLocation } from "@/lib/ipGeo";
+import { createRateLimiter } from "@/lib/rateLimit";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+const rateLimit = createRateLimiter({ limit: 3, windowMs: 10 * 60_000 });
+
+export async function GET() {
+  const notes = await getApprovedNotes();
+  return NextResponse.json({ notes }, { headers: { "Cache-Control": "no-store" } });
+}
+
+// Body: { message, name?, website? }. Notes are pinned to the sender's looked-up area and wait for
+// moderation; nothing about the address is stored.
+export async function POST(req: NextRequest) {
+  let input: unknown;
+  try {
+    input = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+  }
+
+  // Bots get the same answer as people, so they can't tell they were caught.
+  if (isHoneypotFilled(input)) {
+    return NextResponse.json({ ok: true, status: "pending" }, { status: 202 });
+  }
+
+  const parsed = parseGuestbookInput(input);
+  if (!parsed.ok) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+
+  // Counted after validation, so a rejected typo doesn't use up one of the sender's notes.
+  const ip = clientIpFromHeaders(req.headers);
+  const limited = rateLimit(ip || "unknown");
+  if (!limited.allowed) {
+    return NextResponse.json(
+      { error: "Too many notes, try again later" },
+      { status: 429, headers: { "Retry-After": String(limited.retryAfterSeconds) } }
+    );
+  }
+
+  let location;
+  try {
+    location = await lookupIpLocation(ip);
+  } catch (error) {
+    console.error("Guestbook IP lookup failed", error);
+    return NextResponse.json({ error: "Couldn't work out where to pin your note" }, { status: 503 });
+  }
+
+  try {
+    await addGuestbookNote(parsed.value, location);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return NextResponse.json({ error: message }, { status: 503 });
+  }
+  return NextResponse.json({ ok: true, status: "pending" }, { status: 202 });
+}
@@ -1,64 +1,40 @@
 import { NextResponse } from "next/server";
 import { headers } from "next/headers";
-
-type IpApiPayload = {
-  latitude?: number;
-  longitude?: number;
-  city?: string;
-  region?: string;
-  region_code?: string;
-  country?: string;
-  country_name?: string;
-  ip?: string;
-};
+import { clientIpFromHeaders } from "@/lib/clientIp";
+import { lookupIpLocation } from "@/lib/ipGeo";
+import { createRateLimiter } from "@/lib/rateLimit";
+import { recordVisit } from "@/lib/visitAnalytics";
 
 export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
 
-export async function GET() {
-  const hdrs = headers();
-  const forwardedFor = hdrs.get("x-forwarded-for");
-  const realIp = hdrs.get("x-real-ip");
-  const ip = forwardedFor?.split(",")[0]?.trim() || realIp || "";
-
-  const apiUrl = ip ? `https://ipapi.co/${ip}/json/` : "https://ipapi.co/json/";
-
-  try {
-    const res = await fetch(apiUrl, {
-      cache: "no-store",
-      headers: { "User-Agent": "juric-ip-proxy/1.0" },
-    });
-
-    if (!res.ok) {
-      const errorBody = await res.text();
-      return NextResponse.json(
-        { error: `Lookup failed with ${res.status}`, details: errorBody.slice(0, 280) },
-        { status: 502 }
-      );
-    }
+const RATE_LIMIT_REQUESTS = 20;
+const RATE_LIMIT_WINDOW_MS = 60_000;
 
-    const body = (await res.json()) as IpApiPayload;
+const rateLimit = createRateLimiter({ limit: RATE_LIMIT_REQUESTS, windowMs: RATE_LIMIT_WINDOW_MS });
 
-    if (typeof body.latitude !== "number" || typeof body.longitude !== "number") {
-      return NextResponse.json(
-        { error: "Latitude/longitude missing from provider response", raw: body },
-        { status: 500 }
-      );
-    }
+export async function GET() {
+  const requestHeaders = await headers();
+  const ip = clientIpFromHeaders(requestHeaders);
 
+  const limited = rateLimit(ip || "unknown");
+  if (!limited.allowed) {
     return NextResponse.json(
-      {
-        lat: body.latitude,
-        lng: body.longitude,
-        city: body.city || undefined,
-        region: body.region || body.region_code || undefined,
-        country: body.country_name || body.country || undefined,
-        ip: body.ip || (ip || undefined),
-        source: "ipapi.co",
-      },
-      { headers: { "Cache-Control": "no-store" } }
+      { error: "Too many requests" },
+      { status: 429, headers: { "Retry-After": String(limited.retryAfterSeconds) } }
+    );
+  }
+
+  try {
+    const location = await lookupIpLocation(ip);
+    // Every page that shows the globe asks for this, so it doubles as the visit counter.
+    recordVisit(ip, requestHeaders.get("user-agent") ?? "", location).catch((error) =>
+      console.error("Recording visit failed", error)
     );
+    return NextResponse.json(location, { headers: { "Cache-Control": "no-store" } });
   } catch (error) {
-    const message = error instanceof Error ? error.message : "Unknown error";
-    return NextResponse.json({ error: "IP lookup failed", message }, { status: 500 });
+    // Provider details stay in the server log; anonymous clients only learn that the lookup failed.
+    console.error("IP lookup failed", error);
+    return NextResponse.json({ error: "IP lookup failed" }, { status: 502 });
   }
 }
@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server";
+import type { NextRequest } from "next/server";
+import { getPublicLocationHistory } from "@/lib/location";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+const DEFAULT_LIMIT = 12;
+const MAX_LIMIT = 100;
+
+export async function GET(req: NextRequest) {
+  const requested = Number.parseInt(req.nextUrl.searchParams.get("limit") ?? "", 10);
+  const limit = Number.isFinite(requested) ? Math.min(Math.max(requested, 1), MAX_LIMIT) : DEFAULT_LIMIT;
+
+  try {
+    const entries = await getPublicLocationHistory(limit);
+    return NextResponse.json({ entries }, { headers: { "Cache-Control": "no-store" } });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return NextResponse.json({ error: "History lookup failed", message }, { status: 500 });
+  }
+}
@@ -0,0 +1,15 @@
+import { NextResponse } from "next/server";
+import { getPublicLocation } from "@/lib/location";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+export async function GET() {
+  try {
+    const location = await getPublicLocation();
+    return NextResponse.json(location, { headers: { "Cache-Control": "no-store" } });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return NextResponse.json({ error: "Location lookup failed", message }, { status: 500 });
+  }
+}
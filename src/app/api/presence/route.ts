@@ -0,0 +1,51 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { clientIpFromHeaders } from "@/lib/clientIp";
+import { lookupIpLocation } from "@/lib/ipGeo";
+import { heartbeatPresence, leavePresence, presenceHeartbeatMs } from "@/lib/presence";
+import { createRateLimiter } from "@/lib/rateLimit";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+// A heartbeat every 15s is 4 a minute; the headroom covers several tabs behind one address.
+const rateLimit = createRateLimiter({ limit: 30, windowMs: 60_000 });
+
+const SESSION_ID_PATTERN = /^[0-9a-f]{32}$/;
+
+const parseSessionId = (value: unknown) =>
+  typeof value === "string" && SESSION_ID_PATTERN.test(value) ? value : null;
+
+// Joins or heartbeats. The location comes from the request's address, never from the client, and the
+// address itself isn't kept.
+export async function POST(req: NextRequest) {
+  const ip = clientIpFromHeaders(req.headers);
+  const limited = rateLimit(ip || "unknown");
+  if (!limited.allowed) {
+    return NextResponse.json(
+      { error: "Too many requests" },
+      { status: 429, headers: { "Retry-After": String(limited.retryAfterSeconds) } }
+    );
+  }
+
+  const body = await req.json().catch(() => null);
+  const session = await heartbeatPresence(parseSessionId(body?.id), async () => {
+    const { lat, lng } = await lookupIpLocation(ip);
+    return { lat, lng };
+  });
+  if (!session) {
+    return NextResponse.json({ error: "Too many visitors" }, { status: 503, headers: { "Retry-After": "60" } });
+  }
+
+  return NextResponse.json(
+    { id: session.sessionId, publicId: session.publicId, heartbeatMs: presenceHeartbeatMs },
+    { headers: { "Cache-Control": "no-store" } }
+  );
+}
+
+// Leaves immediately instead of waiting for expiry; sent with keepalive as the page unloads.
+export async function DELETE(req: NextRequest) {
+  const id = parseSessionId(req.nextUrl.searchParams.get("id"));
+  if (!id) return NextResponse.json({ error: "Missing id" }, { status: 400 });
+  leavePresence(id);
+  return NextResponse.json({ ok: true });
+}
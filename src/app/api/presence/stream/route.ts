@@ -0,0 +1,10 @@
+import type { NextRequest } from "next/server";
+import { subscribePresence } from "@/lib/presence";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+export async function GET(req: NextRequest) {
+  const lastEventId = req.headers.get("last-event-id") || req.nextUrl.searchParams.get("lastEventId");
+  return subscribePresence(lastEventId, req.signal);
+}
@@ -0,0 +1,65 @@
+import { describePlayback, getNowPlaying } from "@/lib/nowPlaying";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+const DEFAULT_ACCENT = "#6ee7b7";
+const MAX_TEXT_LENGTH = 60;
+const CHAR_WIDTH = 6.6; // average advance of 11px Verdana, close enough to size the halves
+const PADDING = 8;
+const STATE_LABELS = { playing: "now playing", paused: "paused", idle: "listening" };
+
+const escapeXml = (text: string) =>
+  text.replace(/[&<>"']/g, (c) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&apos;" })[c] ?? c);
+
+const truncate = (text: string) => (text.length > MAX_TEXT_LENGTH ? `${text.slice(0, MAX_TEXT_LENGTH - 1)}…` : text);
+
+const textWidth = (text: string) => Math.round([...text].length * CHAR_WIDTH + PADDING * 2);
+
+// Shields-style two-part badge. The right half takes the album accent while something plays; the
+// accent is light (it's tuned for the dark card), so its text is dark.
+const renderBadge = (label: string, message: string, playing: boolean, accent: string) => {
+  const leftWidth = textWidth(label);
+  const rightWidth = textWidth(message);
+  const width = leftWidth + rightWidth;
+  const fill = playing ? accent : "#555";
+  const messageColor = playing ? "#0a0a0a" : "#fff";
+  const title = escapeXml(`${label}: ${message}`);
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="20" role="img" aria-label="${title}">
+  <title>${title}</title>
+  <clipPath id="r"><rect width="${width}" height="20" rx="3"/></clipPath>
+  <g clip-path="url(#r)">
+    <rect width="${leftWidth}" height="20" fill="#333"/>
+    <rect x="${leftWidth}" width="${rightWidth}" height="20" fill="${fill}"/>
+  </g>
+  <g font-family="Verdana,Geneva,DejaVu Sans,sans-serif" font-size="11" text-anchor="middle">
+    <text x="${leftWidth / 2}" y="14" fill="#fff">${escapeXml(label)}</text>
+    <text x="${leftWidth + rightWidth / 2}" y="14" fill="${messageColor}">${escapeXml(message)}</text>
+  </g>
+</svg>`;
+};
+
+// For READMEs and other sites: ![Now playing](https://<site>/api/spotify/now-playing/badge)
+// Always answers 200 with a badge, so an outage shows as text instead of a broken image.
+export async function GET() {
+  const payload = await getNowPlaying().catch(() => null);
+  const summary = describePlayback(payload);
+  const message = payload
+    ? truncate(summary.subtitle ? `${summary.title} — ${summary.subtitle}` : summary.title)
+    : "unavailable";
+  const svg = renderBadge(
+    STATE_LABELS[summary.state],
+    message,
+    summary.state === "playing",
+    payload?.palette?.accent ?? DEFAULT_ACCENT
+  );
+
+  return new Response(svg, {
+    headers: {
+      "Content-Type": "image/svg+xml; charset=utf-8",
+      // Image proxies such as GitHub's camo honor this, so the badge doesn't freeze on one track.
+      "Cache-Control": "no-cache, max-age=0",
+    },
+  });
+}
@@ -0,0 +1,11 @@
+import type { NextRequest } from "next/server";
+import { subscribeNowPlaying } from "@/lib/nowPlayingStream";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+export async function GET(req: NextRequest) {
+  // Browsers send Last-Event-ID on automatic reconnects; the query param covers manual ones.
+  const lastEventId = req.headers.get("last-event-id") || req.nextUrl.searchParams.get("lastEventId");
+  return subscribeNowPlaying(lastEventId, req.signal);
+}
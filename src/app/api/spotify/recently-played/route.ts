@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server";
+import type { NextRequest } from "next/server";
+import { describePlaybackError, getRecentlyPlayed } from "@/lib/nowPlaying";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+const DEFAULT_LIMIT = 10;
+const MAX_LIMIT = 50;
+
+export async function GET(req: NextRequest) {
+  const requested = Number.parseInt(req.nextUrl.searchParams.get("limit") ?? "", 10);
+  const limit = Number.isFinite(requested) ? Math.min(Math.max(requested, 1), MAX_LIMIT) : DEFAULT_LIMIT;
+
+  try {
+    const result = await getRecentlyPlayed(limit);
+    return NextResponse.json(result, { headers: { "Cache-Control": "no-store" } });
+  } catch (error) {
+    // Upstream detail stays in the server log; clients get a stable code.
+    console.warn("Recently-played lookup failed", error);
+    const { code, status, retryAfterSeconds } = describePlaybackError(error);
+    return NextResponse.json(
+      { error: code, retryAfterSeconds },
+      { status, headers: retryAfterSeconds ? { "Retry-After": String(retryAfterSeconds) } : undefined }
+    );
+  }
+}
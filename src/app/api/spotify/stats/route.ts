@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server";
+import type { NextRequest } from "next/server";
+import { getListeningStats, parseStatsRange } from "@/lib/listeningStats";
+import type { ListeningStats, StatsRange } from "@/lib/listeningStats";
+import { createLruCache } from "@/lib/lruCache";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+const statsCache = createLruCache<ListeningStats>({
+  maxEntries: 3,
+  ttlMs: 60_000,
+});
+
+export async function GET(req: NextRequest) {
+  const param = req.nextUrl.searchParams.get("range");
+  const range: StatsRange | null = param === null ? "week" : parseStatsRange(param);
+  if (!range) {
+    return NextResponse.json({ error: "range must be one of day, week, month" }, { status: 400 });
+  }
+
+  try {
+    const cached = statsCache.get(range);
+    const stats = cached ?? (await getListeningStats(range));
+    if (!cached) statsCache.set(range, stats);
+    return NextResponse.json(stats, { headers: { "Cache-Control": "no-store" } });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,16 @@
+import NowPlaying from "@/components/NowPlaying";
+
+export const metadata = {
+  title: "Now playing",
+  robots: { index: false },
+};
+
+// Standalone card for iframes on other sites, e.g.
+// <iframe src="https://<site>/embed/now-playing" width="560" height="160" style="border:0"></iframe>
+export default function EmbedNowPlayingPage() {
+  return (
+    <main className="min-h-screen bg-neutral-950 p-3 text-white">
+      <NowPlaying compact />
+    </main>
+  );
+}
@@ -12,9 +12,27 @@ const geistMono = Geist_Mono({
   subsets: ["latin"],
 });
 
+const DESCRIPTION = "I'm here, and you're there. But with the internet, we can be anywhere.";
+
+// SITE_URL makes OG image and canonical URLs absolute; set it to the public origin in production.
 export const metadata: Metadata = {
-  title: "Create Next App",
-  description: "Generated by create next app",
+  metadataBase: new URL(process.env.SITE_URL || "http://localhost:3000"),
+  title: {
+    default: "Petar Juric",
+    template: "%s | Petar Juric",
+  },
+  description: DESCRIPTION,
+  openGraph: {
+    type: "website",
+    siteName: "Petar Juric",
+    title: "Petar Juric",
+    description: DESCRIPTION,
+  },
+  twitter: {
+    card: "summary_large_image",
+    title: "Petar Juric",
+    description: DESCRIPTION,
+  },
 };
 
 export default function RootLayout({
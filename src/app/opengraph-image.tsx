@@ -0,0 +1,112 @@
+import { ImageResponse } from "next/og";
+import { getPublicLocation } from "@/lib/location";
+import { describePlayback, getNowPlaying } from "@/lib/nowPlaying";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+export const alt = "Petar Juric: current location and what's playing";
+export const size = { width: 1200, height: 630 };
+export const contentType = "image/png";
+
+const DEFAULT_ACCENT = "#6ee7b7";
+const STATE_LABELS = { playing: "Now playing", paused: "Paused", idle: "Spotify pulse" };
+
+const truncate = (text: string, max: number) => (text.length > max ? `${text.slice(0, max - 1)}…` : text);
+
+// Rendered per request so shared links show the current track. Failures fall back to an idle card
+// rather than a broken image.
+export default async function OpengraphImage() {
+  const [playback, location] = await Promise.all([
+    getNowPlaying().catch(() => null),
+    getPublicLocation().catch(() => null),
+  ]);
+  const summary = describePlayback(playback);
+  const accent = playback?.palette?.accent ?? DEFAULT_ACCENT;
+  // A palette means the server already fetched the cover once, so the renderer can load it too.
+  const cover = playback?.palette ? playback.albumImageUrl : undefined;
+
+  return new ImageResponse(
+    (
+      <div
+        style={{
+          width: "100%",
+          height: "100%",
+          display: "flex",
+          flexDirection: "column",
+          justifyContent: "space-between",
+          padding: 72,
+          background: `radial-gradient(circle at 85% 20%, ${playback?.palette?.dominant ?? "#0f3b2e"} 0%, #0a0a0a 60%)`,
+          color: "white",
+        }}
+      >
+        <div style={{ display: "flex", flexDirection: "column", gap: 16 }}>
+          <div style={{ display: "flex", fontSize: 88, fontWeight: 600, letterSpacing: -3 }}>
+            Petar Juric<span style={{ color: "#a3a3a3" }}>.</span>
+          </div>
+          {location && (
+            <div style={{ display: "flex", fontSize: 32, color: "rgba(255,255,255,0.7)" }}>
+              {truncate(location.label, 60)}
+            </div>
+          )}
+        </div>
+
+        <div
+          style={{
+            display: "flex",
+            alignItems: "center",
+            gap: 36,
+            padding: 32,
+            borderRadius: 32,
+            border: `2px solid ${accent}66`,
+            background: "rgba(255,255,255,0.05)",
+          }}
+        >
+          {cover ? (
+            <img src={cover} alt="" width={168} height={168} style={{ borderRadius: 20 }} />
+          ) : (
+            <div
+              style={{
+                display: "flex",
+                width: 168,
+                height: 168,
+                alignItems: "center",
+                justifyContent: "center",
+                borderRadius: 20,
+                background: "rgba(255,255,255,0.08)",
+              }}
+            >
+              {/* A record, since the bundled font has no music glyphs. */}
+              <div
+                style={{
+                  display: "flex",
+                  width: 112,
+                  height: 112,
+                  alignItems: "center",
+                  justifyContent: "center",
+                  borderRadius: 56,
+                  background: "#111",
+                  border: "2px solid rgba(255,255,255,0.15)",
+                }}
+              >
+                <div style={{ display: "flex", width: 32, height: 32, borderRadius: 16, background: accent }} />
+              </div>
+            </div>
+          )}
+          <div style={{ display: "flex", flexDirection: "column", gap: 10, minWidth: 0, flex: 1 }}>
+            <div style={{ display: "flex", fontSize: 24, letterSpacing: 6, textTransform: "uppercase", color: accent }}>
+              {STATE_LABELS[summary.state]}
+            </div>
+            <div style={{ display: "flex", fontSize: 52, fontWeight: 600 }}>{truncate(summary.title, 38)}</div>
+            {summary.subtitle && (
+              <div style={{ display: "flex", fontSize: 32, color: "rgba(255,255,255,0.7)" }}>
+                {truncate(summary.subtitle, 52)}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    ),
+    size
+  );
+}
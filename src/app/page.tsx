@@ -2,6 +2,8 @@
 
 import dynamic from "next/dynamic";
 import { useEffect, useRef, useState } from "react";
+import GuestbookForm from "@/components/GuestbookForm";
+import ListeningStats from "@/components/ListeningStats";
 import NowPlaying from "@/components/NowPlaying";
 
 const GlobeScene = dynamic(() => import("@/components/GlobeScene"), { ssr: false });
@@ -10,6 +12,7 @@ export default function Home() {
   const [canRenderGlobe, setCanRenderGlobe] = useState(true);
   const [texturesPreloaded, setTexturesPreloaded] = useState(false);
   const [scrollProgress, setScrollProgress] = useState(0);
+  const [trackAccent, setTrackAccent] = useState<string | null>(null);
   const scrollFrameRef = useRef<number | null>(null);
 
   useEffect(() => {
@@ -79,7 +82,7 @@ export default function Home() {
 
           <div className="relative left-1/2 w-screen -translate-x-1/2 mt-24 sm:mt-28 sm:static sm:w-full sm:translate-x-0">
             {canRenderGlobe ? (
-              <GlobeScene texturesReady={texturesPreloaded} zoomProgress={scrollProgress} />
+              <GlobeScene texturesReady={texturesPreloaded} zoomProgress={scrollProgress} arcAccent={trackAccent} />
             ) : (
               <div className="">
               </div>
@@ -88,13 +91,24 @@ export default function Home() {
         </div>
       </section>
 
+      <section className="border-t border-white/5 px-6 pb-12 pt-12 sm:px-12 sm:pt-14">
+        <div className="mx-auto flex w-full max-w-5xl flex-col gap-4">
+          <div className="flex items-center justify-between text-xs uppercase tracking-[0.28em] text-white/40">
+            <span>Guestbook</span>
+            <span className="text-[11px] font-medium text-white/40">Pinned where you are</span>
+          </div>
+          <GuestbookForm />
+        </div>
+      </section>
+
       <section className="border-t border-white/5 px-6 pb-20 pt-12 sm:px-12 sm:pt-14">
         <div className="mx-auto flex w-full max-w-5xl flex-col gap-4">
           <div className="flex items-center justify-between text-xs uppercase tracking-[0.28em] text-white/40">
             <span>Spotify pulse</span>
             <span className="text-[11px] font-medium text-white/40">Polled every few seconds</span>
           </div>
-          <NowPlaying />
+          <NowPlaying onAccentChange={setTrackAccent} />
+          <ListeningStats />
         </div>
       </section>
     </main>
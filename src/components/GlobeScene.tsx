@@ -3,9 +3,30 @@
 import dynamic from "next/dynamic";
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import type { GlobeMethods } from "react-globe.gl";
+import { timeZoneAt } from "@/lib/cities";
 import { haversineKm } from "@/lib/geo";
-
-type Point = { lat: number; lng: number; label: string };
+import { CLOSE_ALTITUDE, FAR_ALTITUDE, viewForPoints } from "@/lib/globeView";
+import { escapeHtml } from "@/lib/html";
+import { describeTimeDifference, formatClock } from "@/lib/localTime";
+import { CIVIL_DUSK_ELEVATION, SUNSET_ELEVATION, darknessPolygon, isDaytime } from "@/lib/solar";
+import { usePresence } from "@/components/usePresence";
+
+type Point = { lat: number; lng: number; label: string; color?: string };
+type PublishedLocation = {
+  lat: number;
+  lng: number;
+  label?: string;
+  updatedAt?: string;
+  approximate?: boolean;
+  precisionKm?: number;
+};
+type GuestbookNote = { id: string; name?: string; message: string; lat: number; lng: number; place?: string };
+type NoteLabel = { lat: number; lng: number; text: string };
+export type HexBinPoint = { lat: number; lng: number; weight: number };
+type TrailEntry = { lat: number; lng: number; label: string; updatedAt: string };
+type Shade = { geometry: ReturnType<typeof darknessPolygon>; color: string; altitude: number };
+type Arc = { startLat: number; startLng: number; endLat: number; endLng: number; opacity: number };
+type Rgb = [number, number, number];
 type IpLocation = {
   lat: number;
   lng: number;
@@ -18,6 +39,10 @@ type IpLocation = {
 type GlobeSceneProps = {
   texturesReady?: boolean;
   zoomProgress?: number;
+  arcAccent?: string | null; // hex color for the arc heads, e.g. from the current album art
+  // Admin analytics view: draws these as a hexbin layer instead of Petar, the visitor and everything
+  // else live, and doesn't fetch or register anything.
+  hexBins?: HexBinPoint[];
 };
 
 type MaybeWebGPUGlobal = typeof globalThis & {
@@ -36,6 +61,78 @@ type MaybeWebGPUGlobal = typeof globalThis & {
   };
 };
 
+const TRAIL_LIMIT = 12;
+const TRAIL_REPLAY_STEP_MS = 1200;
+const POINT_COLOR = "rgba(255,255,255,0.9)";
+const PRESENCE_POINT_COLOR = "rgba(255,255,255,0.35)";
+const PRESENCE_ARC_OPACITY = 0.25;
+const NOTE_POINT_COLOR = "rgba(253,230,138,0.9)";
+const NOTE_LABEL_COLOR = "rgba(253,230,138,0.75)";
+const NOTE_LABEL_LIMIT = 20; // newest notes get a label on the globe; the rest are points with a tooltip
+const NOTE_LABEL_LENGTH = 32;
+const HEX_RESOLUTION = 3; // h3 resolution, roughly 12,000 km² per cell
+const AUTO_ROTATE_IDLE_MS = 4000; // explore mode spins the globe after this long without input
+const AUTO_ROTATE_SPEED = 0.4;
+const KEY_ROTATE_DEGREES = 10;
+const KEY_ZOOM_FACTOR = 1.25;
+const KEY_TRANSITION_MS = 300;
+const RECENTER_TRANSITION_MS = 800;
+const MIN_EXPLORE_ALTITUDE = 0.3;
+const MAX_EXPLORE_ALTITUDE = FAR_ALTITUDE + 1;
+const CLOCK_TICK_MS = 60 * 1000;
+// Night is drawn as two stacked layers, sun below the horizon and below civil dusk, so the terminator
+// gets a soft twilight edge instead of a hard line.
+const NIGHT_SHADE_COLOR = "rgba(2,6,23,0.35)";
+const DUSK_SHADE_COLOR = "rgba(2,6,23,0.3)";
+const SHADE_CURVATURE_RESOLUTION = 10; // degrees; the shade is one big polygon, so keep the mesh coarse
+const DEFAULT_ARC_ACCENT: Rgb = [94, 234, 180];
+const ARC_ACCENT_FADE_MS = 900;
+
+const parseHexColor = (hex: string | null | undefined): Rgb | null => {
+  const match = /^#([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(hex ?? "");
+  return match ? [parseInt(match[1], 16), parseInt(match[2], 16), parseInt(match[3], 16)] : null;
+};
+
+// Eases from the current color to `target` rather than snapping when the track changes.
+const useFadedColor = (target: Rgb) => {
+  const [color, setColor] = useState<Rgb>(target);
+  const colorRef = useRef<Rgb>(target);
+  const [r, g, b] = target;
+
+  useEffect(() => {
+    const to: Rgb = [r, g, b];
+    const from = colorRef.current;
+    if (from.every((c, i) => c === to[i])) return;
+
+    const reduceMotion = window.matchMedia("(prefers-reduced-motion: reduce)").matches;
+    const start = performance.now();
+    let frame = 0;
+    const step = (now: number) => {
+      const t = reduceMotion ? 1 : Math.min((now - start) / ARC_ACCENT_FADE_MS, 1);
+      const eased = 1 - (1 - t) ** 3;
+      const next = from.map((c, i) => Math.round(c + (to[i] - c) * eased)) as Rgb;
+      colorRef.current = next;
+      setColor(next);
+      if (t < 1) frame = requestAnimationFrame(step);
+    };
+    frame = requestAnimationFrame(step);
+    return () => cancelAnimationFrame(frame);
+  }, [r, g, b]);
+
+  return color;
+};
+
+// Newest legs are fully opaque; the oldest fade down to a faint trace.
+const trailOpacity = (age: number) => 0.15 + 0.85 * (1 - Math.min(Math.max(age, 0), 1));
+
+const truncate = (text: string, length: number) => (text.length > length ? `${text.slice(0, length - 1)}…` : text);
+
+const noteLabel = (note: GuestbookNote) =>
+  `“${note.message}” — ${note.name ?? "Anonymous"}${note.place ? `, ${note.place}` : ""}`;
+
+const formatTrailDate = (iso: string) =>
+  new Date(iso).toLocaleDateString(undefined, { month: "short", day: "numeric", year: "numeric" });
+
 const Globe = dynamic(async () => {
   if (typeof globalThis !== "undefined") {
     const g = globalThis as MaybeWebGPUGlobal;
@@ -56,93 +153,16 @@ const Globe = dynamic(async () => {
   return import("react-globe.gl");
 }, { ssr: false });
 
-const DEFAULT_POINT_OF_VIEW = { lat: 20, lng: 0 };
-const FAR_ALTITUDE = 4.6;
-const CLOSE_ALTITUDE = 1.1;
-
-const toRad = (deg: number) => (deg * Math.PI) / 180;
-const toDeg = (rad: number) => (rad * 180) / Math.PI;
-
-const wrapLng = (lng: number) => {
-  const wrapped = ((lng + 180) % 360) - 180;
-  return wrapped < -180 ? wrapped + 360 : wrapped;
-};
-
-const angularDistance = (a: { lat: number; lng: number }, b: { lat: number; lng: number }) => {
-  const lat1 = toRad(a.lat);
-  const lat2 = toRad(b.lat);
-  const dLat = lat2 - lat1;
-  const dLng = toRad(b.lng - a.lng);
-  const h =
-    Math.sin(dLat / 2) ** 2 +
-    Math.cos(lat1) * Math.cos(lat2) * Math.sin(dLng / 2) ** 2;
-
-  return 2 * Math.asin(Math.min(1, Math.sqrt(h)));
-};
-
-const cartesianFromLatLng = ({ lat, lng }: { lat: number; lng: number }) => {
-  const phi = toRad(lat);
-  const theta = toRad(lng);
-  const x = Math.cos(phi) * Math.cos(theta);
-  const y = Math.cos(phi) * Math.sin(theta);
-  const z = Math.sin(phi);
-  return { x, y, z };
-};
-
-const latLngFromCartesian = ({ x, y, z }: { x: number; y: number; z: number }) => {
-  const hyp = Math.sqrt(x * x + y * y);
-  return {
-    lat: toDeg(Math.atan2(z, hyp)),
-    lng: wrapLng(toDeg(Math.atan2(y, x))),
-  };
-};
-
-const viewForPoints = (points: Point[]) => {
-  if (points.length === 0) {
-    return { ...DEFAULT_POINT_OF_VIEW, farAltitude: FAR_ALTITUDE };
-  }
-
-  if (points.length === 1) {
-    return { lat: points[0].lat, lng: points[0].lng, farAltitude: CLOSE_ALTITUDE + 0.1 };
-  }
-
-  const sum = points.reduce(
-    (acc, point) => {
-      const c = cartesianFromLatLng(point);
-      acc.x += c.x;
-      acc.y += c.y;
-      acc.z += c.z;
-      return acc;
-    },
-    { x: 0, y: 0, z: 0 }
-  );
-
-  const magnitude = Math.sqrt(sum.x * sum.x + sum.y * sum.y + sum.z * sum.z);
-  const center =
-    magnitude === 0
-      ? DEFAULT_POINT_OF_VIEW
-      : latLngFromCartesian({ x: sum.x / magnitude, y: sum.y / magnitude, z: sum.z / magnitude });
-
-  const maxAngularSpread = points.reduce((max, point) => {
-    const angle = angularDistance(center, point);
-    return Math.max(max, angle);
-  }, 0);
-
-  // Keep the camera far enough back to see the widest-spread point while avoiding over-zooming.
-  const spreadRatio = Math.min(maxAngularSpread / (Math.PI / 2), 1);
-  const farAltitude =
-    CLOSE_ALTITUDE +
-    (FAR_ALTITUDE - CLOSE_ALTITUDE) * (0.35 + 0.65 * spreadRatio);
-
-  return {
-    ...center,
-    farAltitude: Math.min(Math.max(farAltitude, CLOSE_ALTITUDE), FAR_ALTITUDE),
-  };
-};
-
-export default function GlobeScene({ texturesReady = true, zoomProgress = 0 }: GlobeSceneProps) {
+export default function GlobeScene({
+  texturesReady = true,
+  zoomProgress = 0,
+  arcAccent = null,
+  hexBins,
+}: GlobeSceneProps) {
+  const analytics = hexBins !== undefined;
   const globeRef = useRef<GlobeMethods | null>(null);
   const lastAltitudeRef = useRef<number | null>(null);
+  const snappedBaseRef = useRef<string | null>(null);
   const lastViewerIpRef = useRef<string | null>(null);
   const lastPetarSignatureRef = useRef<string | null>(null);
   const [devicePixelRatio] = useState(() =>
@@ -159,8 +179,21 @@ export default function GlobeScene({ texturesReady = true, zoomProgress = 0 }: G
     lng: -122.4194,
     label: "Visitor (approx)",
   }));
+  const [petarPrecisionKm, setPetarPrecisionKm] = useState<number | null>(null);
+  const [trailMode, setTrailMode] = useState(false);
+  const [trail, setTrail] = useState<TrailEntry[]>([]);
+  const [trailIndex, setTrailIndex] = useState(0);
+  const [replaying, setReplaying] = useState(false);
+  const [exploring, setExploring] = useState(false);
+  // Point under the pointer or picked from the keyboard list, announced in the overlay.
+  const [activePoint, setActivePoint] = useState<Point | null>(null);
+  const autoRotateTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const presence = usePresence(!analytics);
+  const [notes, setNotes] = useState<GuestbookNote[]>([]);
+  const [now, setNow] = useState(() => new Date());
 
   useEffect(() => {
+    if (analytics) return;
     let cancelled = false;
 
     const pullViewerLocation = async () => {
@@ -200,21 +233,22 @@ export default function GlobeScene({ texturesReady = true, zoomProgress = 0 }: G
       cancelled = true;
       clearInterval(interval);
     };
-  }, []);
+  }, [analytics]);
 
   useEffect(() => {
-    const sourceUrl = process.env.NEXT_PUBLIC_PETAR_LOCATION_URL;
-    if (!sourceUrl) return;
+    if (analytics) return;
+    // Admin-managed location by default; an external feed can still override it.
+    const sourceUrl = process.env.NEXT_PUBLIC_PETAR_LOCATION_URL || "/api/location";
     let cancelled = false;
 
     const pullPetarLocation = async () => {
       try {
         const res = await fetch(sourceUrl, { cache: "no-store" });
         if (!res.ok) return;
-        const body = (await res.json()) as { lat: number; lng: number; label?: string; updatedAt?: string };
+        const body = (await res.json()) as PublishedLocation;
         if (!Number.isFinite(body.lat) || !Number.isFinite(body.lng)) return;
 
-        const signature = `${body.lat.toFixed(5)},${body.lng.toFixed(5)},${body.label ?? ""},${body.updatedAt ?? ""}`;
+        const signature = `${body.lat.toFixed(5)},${body.lng.toFixed(5)},${body.label ?? ""},${body.updatedAt ?? ""},${body.precisionKm ?? ""}`;
         if (lastPetarSignatureRef.current === signature) return;
 
         lastPetarSignatureRef.current = signature;
@@ -225,6 +259,7 @@ export default function GlobeScene({ texturesReady = true, zoomProgress = 0 }: G
           lng: body.lng,
           label: body.label?.trim() || prev.label || "Petar (auto)",
         }));
+        setPetarPrecisionKm(body.approximate ? body.precisionKm ?? 0 : null);
       } catch (error) {
         console.error("Petar location fetch failed", error);
       }
@@ -237,19 +272,233 @@ export default function GlobeScene({ texturesReady = true, zoomProgress = 0 }: G
       cancelled = true;
       clearInterval(interval);
     };
-  }, []);
+  }, [analytics]);
+
+  useEffect(() => {
+    if (analytics) return;
+    let cancelled = false;
+
+    const pullNotes = async () => {
+      try {
+        const res = await fetch("/api/guestbook", { cache: "no-store" });
+        if (!res.ok) return;
+        const body = (await res.json()) as { notes?: GuestbookNote[] };
+        if (cancelled) return;
+        setNotes((body.notes ?? []).filter((note) => Number.isFinite(note.lat) && Number.isFinite(note.lng)));
+      } catch (error) {
+        console.error("Guestbook fetch failed", error);
+      }
+    };
+
+    pullNotes();
+    const interval = setInterval(pullNotes, 5 * 60 * 1000);
+
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [analytics]);
+
+  useEffect(() => {
+    if (!trailMode) return;
+    let cancelled = false;
+
+    const pullTrail = async () => {
+      try {
+        const res = await fetch(`/api/location/history?limit=${TRAIL_LIMIT}`, { cache: "no-store" });
+        if (!res.ok) return;
+        const body = (await res.json()) as { entries?: TrailEntry[] };
+        const entries = (body.entries ?? []).filter(
+          (entry) => Number.isFinite(entry.lat) && Number.isFinite(entry.lng)
+        );
+        if (cancelled) return;
+        setTrail(entries);
+        setTrailIndex(Math.max(entries.length - 1, 0));
+      } catch (error) {
+        console.error("Travel history fetch failed", error);
+      }
+    };
+
+    pullTrail();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [trailMode]);
+
+  useEffect(() => {
+    if (!replaying) return;
+
+    const interval = setInterval(() => {
+      setTrailIndex((prev) => {
+        const next = prev + 1;
+        if (next >= trail.length - 1) setReplaying(false);
+        return Math.min(next, Math.max(trail.length - 1, 0));
+      });
+    }, TRAIL_REPLAY_STEP_MS);
+
+    return () => clearInterval(interval);
+  }, [replaying, trail.length]);
+
+  // Drives the day/night shade and the clocks. Ticks on the minute so the clocks turn over on time.
+  useEffect(() => {
+    if (analytics) return;
+
+    let timer: ReturnType<typeof setTimeout>;
+    const tick = () => {
+      setNow(new Date());
+      timer = setTimeout(tick, CLOCK_TICK_MS - (Date.now() % CLOCK_TICK_MS));
+    };
+    timer = setTimeout(tick, CLOCK_TICK_MS - (Date.now() % CLOCK_TICK_MS));
+
+    return () => clearTimeout(timer);
+  }, [analytics]);
+
+  const startReplay = () => {
+    if (trail.length < 2) return;
+    setTrailIndex(0);
+    setReplaying(true);
+  };
+
+  const showTrail = trailMode && trail.length > 0;
+  const visibleTrail = useMemo(() => trail.slice(0, trailIndex + 1), [trail, trailIndex]);
 
   const distanceKm = useMemo(() => {
     return Math.round(haversineKm({ lat: petar.lat, lng: petar.lng }, { lat: viewer.lat, lng: viewer.lng }));
   }, [petar, viewer]);
 
-  const points = useMemo(() => [petar, viewer], [petar, viewer]);
-  const arcs = useMemo(
-    () => [{ startLat: viewer.lat, startLng: viewer.lng, endLat: petar.lat, endLng: petar.lng }],
-    [viewer, petar]
+  const shades = useMemo<Shade[]>(
+    () =>
+      analytics
+        ? []
+        : [
+            { geometry: darknessPolygon(now, SUNSET_ELEVATION), color: NIGHT_SHADE_COLOR, altitude: 0.004 },
+            { geometry: darknessPolygon(now, CIVIL_DUSK_ELEVATION), color: DUSK_SHADE_COLOR, altitude: 0.005 },
+          ],
+    [analytics, now]
+  );
+
+  // Both zones are resolved offline from the points on the globe, so the two clocks are worked out alike.
+  const petarTimeZone = useMemo(() => timeZoneAt(petar), [petar]);
+  const viewerTimeZone = useMemo(() => timeZoneAt(viewer), [viewer]);
+  const clocks = useMemo(
+    () => ({
+      petar: formatClock(petarTimeZone, now),
+      viewer: formatClock(viewerTimeZone, now),
+      petarDaytime: isDaytime(petar, now),
+      viewerDaytime: isDaytime(viewer, now),
+      difference: describeTimeDifference("Petar", petarTimeZone, viewerTimeZone, now),
+    }),
+    [petarTimeZone, viewerTimeZone, petar, viewer, now]
+  );
+
+  // Other live visitors; hidden during trail mode so the replay isn't cluttered.
+  const presencePoints = useMemo<Point[]>(
+    () =>
+      showTrail
+        ? []
+        : presence.others.map((visitor) => ({
+            lat: visitor.lat,
+            lng: visitor.lng,
+            label: "Another visitor",
+            color: PRESENCE_POINT_COLOR,
+          })),
+    [showTrail, presence.others]
+  );
+
+  // Only approved notes ever come back from /api/guestbook.
+  const notePoints = useMemo<Point[]>(
+    () =>
+      showTrail
+        ? []
+        : notes.map((note) => ({ lat: note.lat, lng: note.lng, label: noteLabel(note), color: NOTE_POINT_COLOR })),
+    [showTrail, notes]
+  );
+
+  const noteLabels = useMemo<NoteLabel[]>(
+    () =>
+      showTrail || analytics
+        ? []
+        : notes.slice(0, NOTE_LABEL_LIMIT).map((note) => ({
+            lat: note.lat,
+            lng: note.lng,
+            text: truncate(note.message, NOTE_LABEL_LENGTH),
+          })),
+    [showTrail, analytics, notes]
+  );
+
+  const points = useMemo<Point[]>(() => {
+    if (analytics) return [];
+    if (!showTrail) return [...presencePoints, ...notePoints, petar, viewer];
+    const span = Math.max(visibleTrail.length - 1, 1);
+    const stops = visibleTrail.map((entry, i) => ({
+      lat: entry.lat,
+      lng: entry.lng,
+      label: entry.label,
+      color: `rgba(255,255,255,${(0.9 * trailOpacity((visibleTrail.length - 1 - i) / span)).toFixed(3)})`,
+    }));
+    return [...stops, viewer];
+  }, [analytics, showTrail, visibleTrail, presencePoints, notePoints, petar, viewer]);
+
+  const arcs = useMemo<Arc[]>(() => {
+    if (analytics) return [];
+    if (!showTrail) {
+      return [
+        ...presencePoints.map((point) => ({
+          startLat: point.lat,
+          startLng: point.lng,
+          endLat: petar.lat,
+          endLng: petar.lng,
+          opacity: PRESENCE_ARC_OPACITY,
+        })),
+        { startLat: viewer.lat, startLng: viewer.lng, endLat: petar.lat, endLng: petar.lng, opacity: 1 },
+      ];
+    }
+    const legs = visibleTrail.length - 1;
+    return visibleTrail.slice(1).map((entry, i) => {
+      const from = visibleTrail[i];
+      return {
+        startLat: from.lat,
+        startLng: from.lng,
+        endLat: entry.lat,
+        endLng: entry.lng,
+        opacity: trailOpacity((legs - 1 - i) / Math.max(legs, 1)),
+      };
+    });
+  }, [analytics, showTrail, visibleTrail, presencePoints, viewer, petar]);
+
+  // Kept out of the arc data so a color fade only recolors arcs instead of rebuilding them.
+  const [accentR, accentG, accentB] = useFadedColor(parseHexColor(arcAccent) ?? DEFAULT_ARC_ACCENT);
+  const arcColor = useCallback(
+    (d: object) => {
+      const { opacity } = d as Arc;
+      return [
+        `rgba(255,255,255,${(0.15 * opacity).toFixed(3)})`,
+        `rgba(${accentR}, ${accentG}, ${accentB}, ${(0.85 * opacity).toFixed(3)})`,
+      ];
+    },
+    [accentR, accentG, accentB]
   );
 
-  const basePointOfView = useMemo(() => viewForPoints(points), [points]);
+  // Scaled to the busiest region, with a square root so a few big ones don't flatten everything else.
+  // Regions are stored on a 1° grid, about the size of a hex cell, so cells rarely merge them.
+  const maxHexWeight = useMemo(() => Math.max(1, ...(hexBins ?? []).map((bin) => bin.weight)), [hexBins]);
+  const hexAltitude = useCallback(
+    ({ sumWeight }: { sumWeight: number }) => 0.01 + 0.25 * Math.sqrt(Math.min(sumWeight / maxHexWeight, 1)),
+    [maxHexWeight]
+  );
+  const hexColor = useCallback(
+    ({ sumWeight }: { sumWeight: number }) =>
+      `rgba(110,231,183,${(0.35 + 0.6 * Math.sqrt(Math.min(sumWeight / maxHexWeight, 1))).toFixed(3)})`,
+    [maxHexWeight]
+  );
+
+  // Frame the whole trail (not just the scrubbed part) so replaying doesn't move the camera.
+  const framedPoints = useMemo(
+    () => hexBins ?? (showTrail ? trail : [petar, viewer]),
+    [hexBins, showTrail, trail, petar, viewer]
+  );
+  const basePointOfView = useMemo(() => viewForPoints(framedPoints), [framedPoints]);
   const closeAltitude = useMemo(
     () => Math.max(CLOSE_ALTITUDE, basePointOfView.farAltitude - 1.35),
     [basePointOfView.farAltitude]
@@ -261,24 +510,68 @@ export default function GlobeScene({ texturesReady = true, zoomProgress = 0 }: G
 
   useEffect(() => {
     const g = globeRef.current;
-    if (!g) return;
+    // While exploring, new points (a visitor's location resolving, say) mustn't yank the camera away.
+    if (!g || exploring) return;
 
-    const controls = g.controls();
-    controls.enabled = false;
-    controls.enableRotate = false;
-    controls.enablePan = false;
-    controls.enableZoom = false;
-    controls.autoRotate = false;
-    controls.autoRotateSpeed = 0;
+    // Leaving explore mode only snaps if the base view moved meanwhile; otherwise toggleExploring's
+    // eased return is left alone.
+    const signature = `${basePointOfView.lat},${basePointOfView.lng},${basePointOfView.farAltitude}`;
+    if (snappedBaseRef.current === signature) return;
+    snappedBaseRef.current = signature;
 
+    // Recorded so the zoom effect below brings the camera back to the scroll altitude.
+    lastAltitudeRef.current = basePointOfView.farAltitude;
     g.pointOfView(
       { lat: basePointOfView.lat, lng: basePointOfView.lng, altitude: basePointOfView.farAltitude },
       0
     );
+  }, [basePointOfView.lat, basePointOfView.lng, basePointOfView.farAltitude, exploring]);
+
+  const stopAutoRotate = useCallback(() => {
+    if (autoRotateTimerRef.current) clearTimeout(autoRotateTimerRef.current);
+    autoRotateTimerRef.current = null;
+    const controls = globeRef.current?.controls();
+    if (controls) controls.autoRotate = false;
+  }, []);
+
+  // Restarts the idle countdown after any drag, zoom or key press.
+  const deferAutoRotate = useCallback(() => {
+    stopAutoRotate();
+    if (window.matchMedia("(prefers-reduced-motion: reduce)").matches) return;
+    autoRotateTimerRef.current = setTimeout(() => {
+      const controls = globeRef.current?.controls();
+      if (controls) controls.autoRotate = true;
+    }, AUTO_ROTATE_IDLE_MS);
+  }, [stopAutoRotate]);
+
+  useEffect(() => {
+    const g = globeRef.current;
+    if (!g) return;
+
+    const controls = g.controls();
+    controls.enabled = exploring;
+    controls.enableRotate = exploring;
+    controls.enableZoom = exploring;
+    controls.enablePan = false;
+    controls.autoRotate = false;
+    controls.autoRotateSpeed = AUTO_ROTATE_SPEED;
+
     const rendererDom = g.renderer().domElement;
-    rendererDom.style.pointerEvents = "none";
-    rendererDom.style.touchAction = "none";
-  }, [basePointOfView.lat, basePointOfView.lng, basePointOfView.farAltitude]);
+    rendererDom.style.pointerEvents = exploring ? "auto" : "none";
+    // OrbitControls sets touch-action: none, which would trap touch users on the globe. pan-y hands
+    // vertical swipes back to the page; horizontal drags still rotate and pinches still zoom.
+    rendererDom.style.touchAction = exploring ? "pan-y" : "none";
+    if (!exploring) return;
+
+    controls.addEventListener("start", stopAutoRotate);
+    controls.addEventListener("end", deferAutoRotate);
+    deferAutoRotate();
+    return () => {
+      controls.removeEventListener("start", stopAutoRotate);
+      controls.removeEventListener("end", deferAutoRotate);
+      stopAutoRotate();
+    };
+  }, [exploring, stopAutoRotate, deferAutoRotate]);
 
   const applyBasePointOfView = useCallback(() => {
     const g = globeRef.current;
@@ -303,7 +596,7 @@ export default function GlobeScene({ texturesReady = true, zoomProgress = 0 }: G
 
   useEffect(() => {
     const g = globeRef.current;
-    if (!g) return;
+    if (!g || exploring) return;
 
     const clampedProgress = Math.min(Math.max(zoomProgress, 0), 1);
     const targetAltitude =
@@ -322,68 +615,318 @@ export default function GlobeScene({ texturesReady = true, zoomProgress = 0 }: G
       { lat: basePointOfView.lat, lng: basePointOfView.lng, altitude: targetAltitude },
       0
     );
-  }, [zoomProgress, basePointOfView, closeAltitude]);
+  }, [zoomProgress, basePointOfView, closeAltitude, exploring]);
+
+  const scrollAltitude = () =>
+    basePointOfView.farAltitude -
+    (basePointOfView.farAltitude - closeAltitude) * Math.min(Math.max(zoomProgress, 0), 1);
+
+  const recenter = () => {
+    const g = globeRef.current;
+    if (!g) return;
+    if (exploring) deferAutoRotate();
+    const altitude = exploring ? basePointOfView.farAltitude : scrollAltitude();
+    lastAltitudeRef.current = altitude;
+    g.pointOfView({ lat: basePointOfView.lat, lng: basePointOfView.lng, altitude }, RECENTER_TRANSITION_MS);
+  };
+
+  const toggleExploring = () => {
+    setActivePoint(null);
+    // Leaving explore mode eases back to where the page scroll expects the camera.
+    if (exploring) {
+      const altitude = scrollAltitude();
+      lastAltitudeRef.current = altitude;
+      globeRef.current?.pointOfView(
+        { lat: basePointOfView.lat, lng: basePointOfView.lng, altitude },
+        RECENTER_TRANSITION_MS
+      );
+    }
+    setExploring((prev) => !prev);
+  };
+
+  const onGlobeKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    const g = globeRef.current;
+    if (!exploring || !g || e.target !== e.currentTarget) return;
+
+    const view = g.pointOfView();
+    let next: { lat: number; lng: number; altitude: number };
+    switch (e.key) {
+      case "ArrowLeft":
+        next = { ...view, lng: view.lng - KEY_ROTATE_DEGREES };
+        break;
+      case "ArrowRight":
+        next = { ...view, lng: view.lng + KEY_ROTATE_DEGREES };
+        break;
+      case "ArrowUp":
+        next = { ...view, lat: Math.min(view.lat + KEY_ROTATE_DEGREES, 85) };
+        break;
+      case "ArrowDown":
+        next = { ...view, lat: Math.max(view.lat - KEY_ROTATE_DEGREES, -85) };
+        break;
+      case "+":
+      case "=":
+        next = { ...view, altitude: Math.max(view.altitude / KEY_ZOOM_FACTOR, MIN_EXPLORE_ALTITUDE) };
+        break;
+      case "-":
+      case "_":
+        next = { ...view, altitude: Math.min(view.altitude * KEY_ZOOM_FACTOR, MAX_EXPLORE_ALTITUDE) };
+        break;
+      case "0":
+      case "Home":
+        e.preventDefault();
+        recenter();
+        return;
+      default:
+        return;
+    }
+
+    e.preventDefault();
+    deferAutoRotate();
+    g.pointOfView(next, KEY_TRANSITION_MS);
+  };
+
+  // Points reachable from the keyboard: Petar, the visitor and guestbook notes (or the trail stops),
+  // but not every anonymous live visitor.
+  const listedPoints = useMemo(
+    () => (analytics ? [] : showTrail ? points : [petar, viewer, ...notePoints]),
+    [analytics, showTrail, points, petar, viewer, notePoints]
+  );
+
+  const focusPoint = (point: Point) => {
+    setActivePoint(point);
+    deferAutoRotate();
+    globeRef.current?.pointOfView({ lat: point.lat, lng: point.lng }, RECENTER_TRANSITION_MS);
+  };
+
+  const activeTrailEntry = showTrail ? trail[Math.min(trailIndex, trail.length - 1)] : null;
 
   return (
-    <div className="relative h-full w-full bg-neutral-950">
-      <Globe
-        className="h-full w-full pointer-events-none"
-        ref={globeRef}
-        onGlobeReady={applyBasePointOfView}
-        globeImageUrl="https://unpkg.com/three-globe/example/img/earth-dark.jpg"
-        backgroundColor="rgba(0,0,0,0)"
-        showAtmosphere
-        atmosphereAltitude={0.18}
-        bumpImageUrl={texturesReady ? "https://unpkg.com/three-globe/example/img/earth-topology.png" : undefined}
-        rendererConfig={{ antialias: false, powerPreference: "low-power" }}
-        devicePixelRatio={devicePixelRatio}
-        enablePointerInteraction={false}
-        pointsData={points}
-        pointLat="lat"
-        pointLng="lng"
-        pointColor={() => "rgba(255,255,255,0.9)"}
-        pointRadius={0.3}
-        pointAltitude={0.02}
-        arcsData={arcs}
-        arcStartLat="startLat"
-        arcStartLng="startLng"
-        arcEndLat="endLat"
-        arcEndLng="endLng"
-        arcColor={() => ["rgba(255,255,255,0.15)", "rgba(94, 234, 180, 0.85)"]}
-        arcAltitude={0.22}
-        arcStroke={0.7}
-        arcDashLength={0.5}
-        arcDashGap={2.2}
-        arcDashAnimateTime={1600}
-      />
-
-      {/* Interaction blocker to keep globe fixed while allowing vertical scroll */}
+    <div className="w-full">
       <div
-        className="absolute inset-0 z-10"
-        style={{ pointerEvents: "auto", touchAction: "pan-y" }}
-      />
-
-      <div className="pointer-events-none absolute inset-0">
-        <div className="absolute left-7 right-7 top-7 flex items-center justify-between">
-          <div>
-            <div className="text-xs uppercase tracking-[0.2em] text-white/50">Distance</div>
-            <div className="mt-1 text-3xl font-semibold tracking-tight text-white">
-              {distanceKm.toLocaleString()} km
+        className="relative h-full w-full bg-neutral-950 outline-none focus-visible:ring-2 focus-visible:ring-emerald-300/60"
+        tabIndex={exploring ? 0 : undefined}
+        role={exploring ? "application" : undefined}
+        aria-label={
+          exploring
+            ? "Interactive globe. Arrow keys rotate, plus and minus zoom, 0 or Home recenters."
+            : undefined
+        }
+        onKeyDown={onGlobeKeyDown}
+      >
+        <Globe
+          className={`h-full w-full ${exploring ? "" : "pointer-events-none"}`}
+          ref={globeRef}
+          onGlobeReady={applyBasePointOfView}
+          globeImageUrl="https://unpkg.com/three-globe/example/img/earth-dark.jpg"
+          backgroundColor="rgba(0,0,0,0)"
+          showAtmosphere
+          atmosphereAltitude={0.18}
+          bumpImageUrl={texturesReady ? "https://unpkg.com/three-globe/example/img/earth-topology.png" : undefined}
+          rendererConfig={{ antialias: false, powerPreference: "low-power" }}
+          devicePixelRatio={devicePixelRatio}
+          enablePointerInteraction={exploring}
+          onPointHover={(d: object | null) => setActivePoint(d as Point | null)}
+          pointsData={points}
+          pointLat="lat"
+          pointLng="lng"
+          pointColor={(d: object) => (d as Point).color ?? POINT_COLOR}
+          pointLabel={(d: object) => escapeHtml((d as Point).label)}
+          pointRadius={0.3}
+          pointAltitude={0.02}
+          arcsData={arcs}
+          arcStartLat="startLat"
+          arcStartLng="startLng"
+          arcEndLat="endLat"
+          arcEndLng="endLng"
+          arcColor={arcColor}
+          arcAltitude={0.22}
+          arcStroke={0.7}
+          arcDashLength={0.5}
+          arcDashGap={2.2}
+          arcDashAnimateTime={1600}
+          labelsData={noteLabels}
+          labelLat="lat"
+          labelLng="lng"
+          labelText="text"
+          labelColor={() => NOTE_LABEL_COLOR}
+          labelSize={0.45}
+          labelDotRadius={0.18}
+          labelAltitude={0.01}
+          labelResolution={2}
+          polygonsData={shades}
+          polygonGeoJsonGeometry="geometry"
+          polygonCapColor="color"
+          polygonSideColor={() => "rgba(0,0,0,0)"}
+          polygonStrokeColor={() => false}
+          polygonAltitude="altitude"
+          polygonCapCurvatureResolution={SHADE_CURVATURE_RESOLUTION}
+          polygonsTransitionDuration={0}
+          hexBinPointsData={hexBins ?? []}
+          hexBinPointLat="lat"
+          hexBinPointLng="lng"
+          hexBinPointWeight="weight"
+          hexBinResolution={HEX_RESOLUTION}
+          hexMargin={0.2}
+          hexAltitude={hexAltitude}
+          hexTopColor={hexColor}
+          hexSideColor={hexColor}
+          hexTransitionDuration={600}
+        />
+
+        {/* Interaction blocker to keep globe fixed while allowing vertical scroll */}
+        {!exploring && (
+          <div
+            className="absolute inset-0 z-10"
+            style={{ pointerEvents: "auto", touchAction: "pan-y" }}
+          />
+        )}
+
+        {exploring && (
+          <>
+            <ul className="sr-only" aria-label="Places on the globe">
+              {listedPoints.map((point, i) => (
+                <li key={`${point.lat},${point.lng},${i}`}>
+                  <button type="button" onFocus={() => focusPoint(point)} onClick={() => focusPoint(point)}>
+                    {point.label}
+                  </button>
+                </li>
+              ))}
+            </ul>
+            <div
+              className="pointer-events-none absolute bottom-7 left-7 right-7 z-20 flex justify-center"
+              aria-live="polite"
+            >
+              {activePoint && (
+                <span className="max-w-full truncate rounded-full border border-white/10 bg-black/70 px-3 py-1 text-xs text-white/80">
+                  {activePoint.label}
+                </span>
+              )}
+            </div>
+          </>
+        )}
+
+        {!analytics && (
+          <div className="pointer-events-none absolute inset-0">
+            <div className="absolute left-7 right-7 top-7 flex items-center justify-between">
+              <div className="flex flex-wrap items-start gap-x-10 gap-y-4">
+                <div>
+                  <div className="text-xs uppercase tracking-[0.2em] text-white/50">Distance</div>
+                  <div className="mt-1 text-3xl font-semibold tracking-tight text-white">
+                    {petarPrecisionKm !== null && <span className="text-white/60">~</span>}
+                    {distanceKm.toLocaleString()} km
+                  </div>
+                  <div className="mt-1 text-sm text-white/60">
+                    {petarPrecisionKm !== null
+                      ? `Approximate${petarPrecisionKm > 0 ? ` (±${petarPrecisionKm} km)` : ""}. One moment.`
+                      : "Two points. One moment."}
+                  </div>
+                  {presence.count !== null && presence.count > 0 && (
+                    <div className="mt-2 flex items-center gap-2 text-xs text-white/50" aria-live="polite">
+                      <span className="h-1.5 w-1.5 rounded-full bg-white/40" />
+                      {presence.count.toLocaleString()} {presence.count === 1 ? "person" : "people"} here right now
+                    </div>
+                  )}
+                </div>
+                <div>
+                  <div className="text-xs uppercase tracking-[0.2em] text-white/50">Local time</div>
+                  <div className="mt-1 space-y-0.5 text-sm text-white">
+                    <div className="flex items-center gap-2">
+                      <span className="h-2 w-2 rounded-full bg-white" />
+                      <span className="font-semibold tabular-nums">{clocks.petar}</span>
+                      <span className="text-white/50">Petar · {clocks.petarDaytime ? "day" : "night"}</span>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <span className="h-2 w-2 rounded-full bg-emerald-300" />
+                      <span className="font-semibold tabular-nums">{clocks.viewer}</span>
+                      <span className="text-white/50">You · {clocks.viewerDaytime ? "day" : "night"}</span>
+                    </div>
+                  </div>
+                  <div className="mt-1 text-sm text-white/60">{clocks.difference}</div>
+                </div>
+              </div>
+              <div className="hidden gap-2 sm:flex text-xs text-white/60">
+                <span className="flex items-center gap-1 rounded-full border border-white/10 bg-white/5 px-3 py-1">
+                  <span className="h-2 w-2 rounded-full bg-white" />
+                  Petar
+                </span>
+                <span className="flex items-center gap-1 rounded-full border border-white/10 bg-white/5 px-3 py-1">
+                  <span className="h-2 w-2 rounded-full bg-emerald-300" />
+                  You
+                </span>
+              </div>
             </div>
-            <div className="mt-1 text-sm text-white/60">Two points. One moment.</div>
-          </div>
-          <div className="hidden gap-2 sm:flex text-xs text-white/60">
-            <span className="flex items-center gap-1 rounded-full border border-white/10 bg-white/5 px-3 py-1">
-              <span className="h-2 w-2 rounded-full bg-white" />
-              Petar
-            </span>
-            <span className="flex items-center gap-1 rounded-full border border-white/10 bg-white/5 px-3 py-1">
-              <span className="h-2 w-2 rounded-full bg-emerald-300" />
-              You
-            </span>
           </div>
-        </div>
+        )}
       </div>
+
+      {!analytics && (
+        <div className="flex flex-wrap items-center gap-3 px-7 pt-4 text-xs text-white/60">
+          <button
+            type="button"
+            onClick={() => {
+              setReplaying(false);
+              setTrailMode((prev) => !prev);
+            }}
+            className={`rounded-full border px-3 py-1 transition ${
+              trailMode ? "border-emerald-300/50 bg-emerald-300/10 text-emerald-100" : "border-white/10 bg-white/5 hover:bg-white/10"
+            }`}
+            aria-pressed={trailMode}
+          >
+            Travel trail
+          </button>
+          <button
+            type="button"
+            onClick={toggleExploring}
+            className={`rounded-full border px-3 py-1 transition ${
+              exploring ? "border-emerald-300/50 bg-emerald-300/10 text-emerald-100" : "border-white/10 bg-white/5 hover:bg-white/10"
+            }`}
+            aria-pressed={exploring}
+          >
+            Explore
+          </button>
+          {exploring && (
+            <button
+              type="button"
+              onClick={recenter}
+              className="rounded-full border border-white/10 bg-white/5 px-3 py-1 transition hover:bg-white/10"
+            >
+              Recenter
+            </button>
+          )}
+
+          {showTrail && (
+            <>
+              <button
+                type="button"
+                onClick={() => (replaying ? setReplaying(false) : startReplay())}
+                disabled={trail.length < 2}
+                className="rounded-full border border-white/10 bg-white/5 px-3 py-1 transition hover:bg-white/10 disabled:opacity-40"
+              >
+                {replaying ? "Pause" : "Replay"}
+              </button>
+              <input
+                type="range"
+                min={0}
+                max={Math.max(trail.length - 1, 0)}
+                step={1}
+                value={Math.min(trailIndex, trail.length - 1)}
+                onChange={(e) => {
+                  setReplaying(false);
+                  setTrailIndex(Number(e.target.value));
+                }}
+                className="min-w-[10rem] flex-1 accent-emerald-300"
+                aria-label="Scrub through travel history"
+              />
+              {activeTrailEntry && (
+                <span className="whitespace-nowrap">
+                  {activeTrailEntry.label} · {formatTrailDate(activeTrailEntry.updatedAt)}
+                </span>
+              )}
+            </>
+          )}
+          {trailMode && trail.length === 0 && <span>No travel history yet.</span>}
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,112 @@
+"use client";
+
+import { useState } from "react";
+
+// Keep in sync with src/lib/guestbook.ts; the server enforces them either way.
+const MAX_MESSAGE_LENGTH = 280;
+const MAX_NAME_LENGTH = 40;
+
+const inputClassName =
+  "w-full rounded-lg border border-white/15 bg-black/40 px-3 py-2 text-sm text-white outline-none focus:border-emerald-300/60";
+
+export default function GuestbookForm() {
+  const [message, setMessage] = useState("");
+  const [name, setName] = useState("");
+  const [website, setWebsite] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [sent, setSent] = useState(false);
+  const [busy, setBusy] = useState(false);
+
+  const onSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setBusy(true);
+
+    try {
+      const res = await fetch("/api/guestbook", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ message, name: name || undefined, website }),
+      });
+      const body = (await res.json()) as { error?: string };
+      if (!res.ok) {
+        setError(body.error || "Couldn't send your note");
+        return;
+      }
+      setSent(true);
+      setMessage("");
+      setName("");
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Unknown error";
+      setError(message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="mx-auto w-full max-w-4xl rounded-2xl border border-white/10 bg-white/5 px-5 py-4 sm:px-7 sm:py-6">
+      <div className="text-[11px] uppercase tracking-[0.32em] text-white/50">Leave a note</div>
+      <p className="mt-2 text-sm text-white/60">
+        It&apos;s pinned to your general area (never your exact spot) and shows on the globe once it&apos;s approved.
+      </p>
+
+      {sent ? (
+        <div className="mt-4 rounded-lg border border-emerald-300/40 bg-emerald-300/10 px-4 py-3 text-sm text-emerald-100">
+          Thanks! Your note will appear after a quick review.
+        </div>
+      ) : (
+        <form onSubmit={onSubmit} className="mt-4 space-y-3">
+          <label className="block">
+            <span className="sr-only">Message</span>
+            <textarea
+              className={`${inputClassName} min-h-20 resize-y`}
+              value={message}
+              onChange={(e) => setMessage(e.target.value)}
+              placeholder="Say hi from where you are"
+              maxLength={MAX_MESSAGE_LENGTH}
+              required
+              disabled={busy}
+            />
+          </label>
+          {/* Honeypot: hidden from people and assistive tech, so only bots fill it in. */}
+          <div className="hidden" aria-hidden="true">
+            <label>
+              Website
+              <input tabIndex={-1} autoComplete="off" value={website} onChange={(e) => setWebsite(e.target.value)} />
+            </label>
+          </div>
+          <div className="flex flex-wrap items-center gap-3">
+            <label className="min-w-[12rem] flex-1">
+              <span className="sr-only">Name (optional)</span>
+              <input
+                className={inputClassName}
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Name (optional)"
+                maxLength={MAX_NAME_LENGTH}
+                disabled={busy}
+              />
+            </label>
+            <span className="text-xs text-white/40">
+              {message.length}/{MAX_MESSAGE_LENGTH}
+            </span>
+            <button
+              type="submit"
+              disabled={busy || message.trim().length < 2}
+              className="rounded-lg bg-emerald-400 px-4 py-2 text-sm font-semibold text-black transition hover:bg-emerald-300 disabled:opacity-60"
+            >
+              {busy ? "Sending…" : "Pin note"}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {error && (
+        <div className="mt-4 rounded-lg border border-red-400/40 bg-red-400/10 px-4 py-3 text-sm text-red-100">
+          {error}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,161 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+type StatsRange = "day" | "week" | "month";
+
+type StatsResponse = {
+  range: StatsRange;
+  plays: number;
+  listenedMs: number;
+  topTracks: { track: string; artists: string[]; albumImageUrl?: string; plays: number; listenedMs: number }[];
+  topArtists: { name: string; plays: number; listenedMs: number }[];
+  buckets: { start: string; listenedMs: number }[];
+  error?: string;
+};
+
+const RANGES: { value: StatsRange; label: string }[] = [
+  { value: "day", label: "24h" },
+  { value: "week", label: "7 days" },
+  { value: "month", label: "30 days" },
+];
+
+const formatHours = (ms: number) => {
+  const hours = ms / 3_600_000;
+  if (hours >= 10) return `${Math.round(hours)} h`;
+  if (hours >= 1) return `${hours.toFixed(1)} h`;
+  return `${Math.round(ms / 60_000)} min`;
+};
+
+const bucketLabel = (start: string, range: StatsRange) => {
+  const date = new Date(start);
+  return range === "day"
+    ? date.toLocaleTimeString(undefined, { hour: "numeric" })
+    : date.toLocaleDateString(undefined, { month: "short", day: "numeric" });
+};
+
+export function ListeningStats() {
+  const [range, setRange] = useState<StatsRange>("week");
+  const [stats, setStats] = useState<StatsResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const pullStats = async () => {
+      try {
+        const res = await fetch(`/api/spotify/stats?range=${range}`, { cache: "no-store" });
+        const body = (await res.json()) as StatsResponse;
+        if (!res.ok) throw new Error(body.error || `Request failed with ${res.status}`);
+        if (!cancelled) {
+          setStats(body);
+          setError(null);
+        }
+      } catch (err) {
+        const message = err instanceof Error ? err.message : "Unknown error";
+        if (!cancelled) setError(message);
+      }
+    };
+
+    pullStats();
+    return () => {
+      cancelled = true;
+    };
+  }, [range]);
+
+  const peak = Math.max(1, ...(stats?.buckets.map((b) => b.listenedMs) ?? []));
+
+  return (
+    <div className="mx-auto w-full max-w-4xl rounded-2xl border border-white/10 bg-white/5 px-5 py-4 sm:px-7 sm:py-6">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="text-[11px] uppercase tracking-[0.32em] text-white/50">Listening stats</div>
+        <div className="flex gap-1 rounded-lg border border-white/10 bg-black/30 p-1" role="group" aria-label="Time range">
+          {RANGES.map((option) => (
+            <button
+              key={option.value}
+              type="button"
+              onClick={() => setRange(option.value)}
+              aria-pressed={range === option.value}
+              className={`rounded-md px-3 py-1 text-xs font-semibold transition ${
+                range === option.value ? "bg-emerald-400 text-black" : "text-white/60 hover:text-white"
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {stats && stats.range === range && (
+        <>
+          <div className="mt-4 flex gap-8 text-white">
+            <div>
+              <div className="text-2xl font-semibold">{formatHours(stats.listenedMs)}</div>
+              <div className="text-xs text-white/50">listened</div>
+            </div>
+            <div>
+              <div className="text-2xl font-semibold">{stats.plays}</div>
+              <div className="text-xs text-white/50">plays</div>
+            </div>
+          </div>
+
+          <div className="mt-4 flex h-20 items-end gap-1" aria-hidden>
+            {stats.buckets.map((bucket) => (
+              <div
+                key={bucket.start}
+                title={`${bucketLabel(bucket.start, range)} · ${formatHours(bucket.listenedMs)}`}
+                className="flex-1 rounded-sm bg-emerald-300/70"
+                style={{ height: `${Math.max(2, (bucket.listenedMs / peak) * 100)}%` }}
+              />
+            ))}
+          </div>
+
+          {stats.plays === 0 ? (
+            <div className="mt-4 text-sm text-white/50">No plays recorded in this range yet.</div>
+          ) : (
+            <div className="mt-5 grid gap-6 sm:grid-cols-2">
+              <div>
+                <div className="text-xs uppercase tracking-[0.2em] text-white/40">Top tracks</div>
+                <ol className="mt-2 space-y-2">
+                  {stats.topTracks.map((item) => (
+                    <li key={`${item.track}-${item.artists.join(",")}`} className="flex items-center gap-3">
+                      <div className="h-9 w-9 flex-shrink-0 overflow-hidden rounded-md border border-white/10 bg-white/5">
+                        {item.albumImageUrl && (
+                          // Covers come from Spotify, Last.fm or any host a manual track names; see NowPlaying.
+                          // eslint-disable-next-line @next/next/no-img-element
+                          <img src={item.albumImageUrl} alt="" className="h-full w-full object-cover" loading="lazy" />
+                        )}
+                      </div>
+                      <div className="min-w-0 flex-1">
+                        <div className="line-clamp-1 text-sm text-white">{item.track}</div>
+                        <div className="line-clamp-1 text-xs text-white/50">{item.artists.join(", ")}</div>
+                      </div>
+                      <div className="flex-shrink-0 text-[11px] text-white/40">{item.plays}×</div>
+                    </li>
+                  ))}
+                </ol>
+              </div>
+              <div>
+                <div className="text-xs uppercase tracking-[0.2em] text-white/40">Top artists</div>
+                <ol className="mt-2 space-y-2">
+                  {stats.topArtists.map((item) => (
+                    <li key={item.name} className="flex items-center justify-between gap-3 text-sm">
+                      <span className="line-clamp-1 text-white">{item.name}</span>
+                      <span className="flex-shrink-0 text-[11px] text-white/40">
+                        {item.plays}× · {formatHours(item.listenedMs)}
+                      </span>
+                    </li>
+                  ))}
+                </ol>
+              </div>
+            </div>
+          )}
+        </>
+      )}
+
+      {error && <div className="mt-3 text-xs text-red-200/80">Stats lookup failed: {error}</div>}
+    </div>
+  );
+}
+
+export default ListeningStats;
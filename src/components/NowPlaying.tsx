@@ -1,21 +1,51 @@
 "use client";
 
 import { useEffect, useMemo, useState } from "react";
+import type { CSSProperties } from "react";
+
+type PlaybackItemType = "track" | "episode" | "ad" | "unknown";
+
+type AlbumPalette = {
+  dominant: string;
+  accent: string;
+  text: string;
+};
 
 type NowPlayingResponse = {
   isPlaying: boolean;
+  privacy?: "paused" | "hidden";
+  currentlyPlayingType?: PlaybackItemType;
   track?: string;
   artists?: string;
   album?: string;
+  show?: string;
+  publisher?: string;
   albumImageUrl?: string;
+  palette?: AlbumPalette;
   trackUrl?: string;
   durationMs?: number;
   progressMs?: number;
   lastUpdated?: string;
   source?: string;
+  stale?: boolean;
   error?: string;
 };
 
+type RecentTrack = {
+  trackId?: string;
+  track: string;
+  artists?: string;
+  album?: string;
+  albumImageUrl?: string;
+  trackUrl?: string;
+  playedAt: string;
+};
+
+type RecentlyPlayedResponse = {
+  tracks: RecentTrack[];
+  lastPlayedAt: string | null;
+};
+
 const formatMs = (ms: number | undefined) => {
   if (typeof ms !== "number" || Number.isNaN(ms)) return "0:00";
   const totalSeconds = Math.max(0, Math.floor(ms / 1000));
@@ -33,12 +63,66 @@ const formatUpdatedAgo = (lastUpdated?: string) => {
   return `${minutes} minutes ago`;
 };
 
-export function NowPlaying() {
+const formatPlayedAgo = (playedAt: string) => {
+  const minutes = Math.round(Math.max(0, Date.now() - new Date(playedAt).getTime()) / 60_000);
+  if (minutes < 1) return "just now";
+  if (minutes < 60) return minutes === 1 ? "1 minute ago" : `${minutes} minutes ago`;
+  const hours = Math.round(minutes / 60);
+  if (hours < 24) return hours === 1 ? "1 hour ago" : `${hours} hours ago`;
+  const days = Math.round(hours / 24);
+  return days === 1 ? "yesterday" : `${days} days ago`;
+};
+
+// Badge text per payload source; unknown sources fall back to the raw name.
+const SOURCE_LABELS: Record<string, string> = {
+  spotify: "Live from Spotify",
+  lastfm: "Live via Last.fm",
+  manual: "Now playing",
+};
+
+// Shown in place of metadata for items Spotify doesn't describe or the server hides.
+const PLACEHOLDERS = {
+  ad: { title: "Advertisement", subtitle: "Back to the music shortly" },
+  unknown: { title: "Something's playing", subtitle: "Spotify isn't sharing what this is" },
+  hidden: { title: "Something private", subtitle: "Not shared publicly" },
+  paused: { title: "Listening privately", subtitle: "Now playing is paused for a while" },
+};
+
+// The server only ever reports these codes; anything else is a client-side failure.
+const ERROR_MESSAGES: Record<string, string> = {
+  not_configured: "No now-playing source is set up.",
+  auth_failed: "The music account needs reconnecting.",
+  rate_limited: "Rate limited upstream. Trying again shortly.",
+  upstream_unavailable: "The music service isn't responding. Trying again shortly.",
+};
+
+const STREAM_URL = "/api/spotify/now-playing/stream";
+const PLAYBACK_EVENTS = ["snapshot", "track", "pause", "resume", "seek"];
+const POLL_INTERVAL_MS = 8_000;
+const PROGRESS_TICK_MS = 1_000; // the stream only sends track, pause and seek changes, so progress ticks locally
+const RECENT_LIMIT = 8;
+
+type Props = {
+  // Reports the current track's accent (null for the default theme), e.g. to tint the globe's arcs.
+  onAccentChange?: (accent: string | null) => void;
+  // Just the card, without the recently played list; used by the /embed widget.
+  compact?: boolean;
+};
+
+export function NowPlaying({ onAccentChange, compact = false }: Props) {
   const [data, setData] = useState<NowPlayingResponse | null>(null);
   const [error, setError] = useState<string | null>(null);
+  // Last time the server checked Spotify, from stream heartbeats; newer than `lastUpdated` when nothing changed.
+  const [checkedAt, setCheckedAt] = useState<string | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+  // Set while the server is serving its last good payload because upstream is failing.
+  const [stale, setStale] = useState(false);
+  const [recent, setRecent] = useState<RecentlyPlayedResponse | null>(null);
 
   useEffect(() => {
     let cancelled = false;
+    let interval: ReturnType<typeof setInterval> | null = null;
+    let source: EventSource | null = null;
 
     const pullNowPlaying = async () => {
       try {
@@ -51,6 +135,8 @@ export function NowPlaying() {
 
         if (!cancelled) {
           setData(body);
+          setCheckedAt(null);
+          setStale(Boolean(body.stale));
           setError(null);
         }
       } catch (err) {
@@ -61,49 +147,157 @@ export function NowPlaying() {
       }
     };
 
-    pullNowPlaying();
-    const interval = setInterval(pullNowPlaying, 8_000);
+    const startPolling = () => {
+      if (interval) return;
+      pullNowPlaying();
+      interval = setInterval(pullNowPlaying, POLL_INTERVAL_MS);
+    };
+
+    if (typeof EventSource === "undefined") {
+      startPolling();
+    } else {
+      let opened = false;
+      source = new EventSource(STREAM_URL);
+
+      const onPlayback = (event: MessageEvent<string>) => {
+        const payload = JSON.parse(event.data) as NowPlayingResponse;
+        setData(payload);
+        setStale(Boolean(payload.stale));
+        setError(null);
+      };
+      for (const name of PLAYBACK_EVENTS) source.addEventListener(name, onPlayback);
+
+      source.addEventListener("heartbeat", (event: MessageEvent<string>) => {
+        const beat = JSON.parse(event.data) as { checkedAt: string | null; error: string | null; stale?: boolean };
+        setCheckedAt(beat.checkedAt);
+        setStale(Boolean(beat.stale));
+        setError(beat.error);
+      });
+
+      source.onopen = () => {
+        opened = true;
+      };
+
+      // EventSource reconnects on its own (resuming via Last-Event-ID) after a dropped stream. If it
+      // never connected, or the server refused it outright, fall back to polling.
+      source.onerror = () => {
+        if (opened && source?.readyState !== EventSource.CLOSED) return;
+        source?.close();
+        source = null;
+        if (!cancelled) startPolling();
+      };
+    }
 
     return () => {
       cancelled = true;
-      clearInterval(interval);
+      source?.close();
+      if (interval) clearInterval(interval);
     };
   }, []);
 
+  const isIdle = data !== null && !data.isPlaying;
+  const palette = data?.palette;
+  const accent = palette?.accent ?? null;
+
+  useEffect(() => {
+    onAccentChange?.(accent);
+  }, [accent, onAccentChange]);
+
+  useEffect(() => {
+    // Only needed while nothing is playing; refreshed each time playback stops.
+    if (!isIdle) return;
+    let cancelled = false;
+
+    const pullRecent = async () => {
+      try {
+        const res = await fetch(`/api/spotify/recently-played?limit=${RECENT_LIMIT}`, { cache: "no-store" });
+        if (!res.ok) return;
+        const body = (await res.json()) as RecentlyPlayedResponse;
+        if (!cancelled) setRecent(body);
+      } catch {
+        // The card still works without history.
+      }
+    };
+
+    pullRecent();
+    return () => {
+      cancelled = true;
+    };
+  }, [isIdle]);
+
+  const isPlaying = Boolean(data?.isPlaying);
+  useEffect(() => {
+    if (!isPlaying) return;
+    const interval = setInterval(() => setNow(Date.now()), PROGRESS_TICK_MS);
+    return () => clearInterval(interval);
+  }, [isPlaying]);
+
   const derivedProgressMs = useMemo(() => {
     if (!data?.isPlaying) return data?.progressMs ?? 0;
-    const lastUpdated = data.lastUpdated ? new Date(data.lastUpdated).getTime() : Date.now();
-    const elapsed = Date.now() - lastUpdated;
+    const lastUpdated = data.lastUpdated ? new Date(data.lastUpdated).getTime() : now;
+    // `now` can trail a payload that just arrived by up to a tick.
+    const elapsed = Math.max(0, now - lastUpdated);
     const base = data.progressMs ?? 0;
     const duration = data.durationMs ?? base;
     return Math.min(duration, base + elapsed);
-  }, [data]);
+  }, [data, now]);
 
   const progressPercent =
     data?.durationMs && data.durationMs > 0
       ? Math.min(100, (derivedProgressMs / data.durationMs) * 100)
       : 0;
 
-  const playingState = data?.isPlaying ? "Live from Spotify" : "Offline";
-  const subtitle =
-    data?.artists && data.album
-      ? `${data.artists} • ${data.album}`
-      : data?.artists || data?.album || "Waiting for playback";
+  const playingState = data?.isPlaying
+    ? SOURCE_LABELS[data.source ?? ""] ?? (data.source ? `Live from ${data.source}` : "Live")
+    : data?.privacy === "paused"
+      ? "Private"
+      : "Offline";
+  const itemType = data?.isPlaying ? data.currentlyPlayingType ?? "track" : "track";
+  const placeholder = data?.privacy
+    ? PLACEHOLDERS[data.privacy]
+    : itemType === "ad" || itemType === "unknown"
+      ? PLACEHOLDERS[itemType]
+      : null;
+  const isPlaceholder = placeholder !== null;
+  const heading = itemType === "episode" ? "Currently listening · Podcast" : "Currently listening";
+  const title = placeholder ? placeholder.title : data?.track;
+  const subtitle = placeholder
+    ? placeholder.subtitle
+    : itemType === "episode"
+      ? [data?.show, data?.publisher].filter(Boolean).join(" • ") || "Podcast episode"
+      : data?.artists && data.album
+        ? `${data.artists} • ${data.album}`
+        : data?.artists ||
+          data?.album ||
+          (recent?.lastPlayedAt ? `Last played ${formatPlayedAgo(recent.lastPlayedAt)}` : "Waiting for playback");
+  const artAlt =
+    itemType === "episode"
+      ? `${data?.show ?? "Podcast"} artwork`
+      : data?.album
+        ? `${data.album} cover`
+        : "Album art";
+  // Overrides the emerald defaults in globals.css, which transition to the new values.
+  const themeStyle = palette
+    ? ({ "--np-accent": palette.accent, "--np-text": palette.text, "--np-glow": palette.dominant } as CSSProperties)
+    : undefined;
 
   return (
-    <div className="mx-auto w-full max-w-4xl rounded-2xl border border-white/10 bg-white/5 px-5 py-4 sm:px-7 sm:py-6">
+    <div
+      className="now-playing-theme mx-auto w-full max-w-4xl rounded-2xl border bg-white/5 px-5 py-4 sm:px-7 sm:py-6"
+      style={themeStyle}
+    >
       <div className="flex items-center gap-4 sm:gap-6">
         <div className="relative h-20 w-20 flex-shrink-0 overflow-hidden rounded-xl border border-white/10 bg-white/5 sm:h-24 sm:w-24">
           {data?.albumImageUrl ? (
             <img
               src={data.albumImageUrl}
-              alt={data.album ? `${data.album} cover` : "Album art"}
+              alt={artAlt}
               className="h-full w-full object-cover"
               loading="lazy"
             />
           ) : (
             <div className="flex h-full w-full items-center justify-center text-xs text-white/40">
-              No art
+              {isPlaceholder ? "♪" : "No art"}
             </div>
           )}
           <div className="absolute left-2 top-2 rounded-full bg-black/60 px-2 py-1 text-[10px] font-semibold uppercase tracking-[0.12em] text-white/80">
@@ -114,50 +308,98 @@ export function NowPlaying() {
         <div className="flex min-w-0 flex-1 flex-col gap-3">
           <div className="flex flex-col gap-1">
             <div className="text-[11px] uppercase tracking-[0.32em] text-white/50">
-              Currently listening
+              {heading}
             </div>
             <div className="flex items-start justify-between gap-3">
               <div className="min-w-0">
-                {data?.track ? (
+                {title && data?.trackUrl && !isPlaceholder ? (
                   <a
-                    href={data.trackUrl || undefined}
+                    href={data.trackUrl}
                     target="_blank"
                     rel="noreferrer"
-                    className="line-clamp-1 text-lg font-semibold text-white transition hover:text-emerald-200 sm:text-xl"
+                    className="line-clamp-1 text-lg font-semibold text-white transition hover:text-(--np-text) sm:text-xl"
                   >
-                    {data.track}
+                    {title}
                   </a>
                 ) : (
-                  <div className="text-lg font-semibold text-white sm:text-xl">
-                    Not playing
+                  <div className="line-clamp-1 text-lg font-semibold text-white sm:text-xl">
+                    {title || "Not playing"}
                   </div>
                 )}
                 <div className="line-clamp-1 text-sm text-white/60">{subtitle}</div>
               </div>
               <div className="text-right text-xs text-white/50">
-                {data?.lastUpdated ? `Updated ${formatUpdatedAgo(data.lastUpdated)}` : "—"}
+                {data?.lastUpdated ? `Updated ${formatUpdatedAgo(checkedAt ?? data.lastUpdated)}` : "—"}
               </div>
             </div>
           </div>
 
-          <div>
-            <div className="h-1.5 w-full rounded-full bg-white/10">
-              <div
-                className="h-full rounded-full bg-emerald-300 transition-[width] duration-500 ease-out"
-                style={{ width: `${progressPercent}%` }}
-              />
-            </div>
-            <div className="mt-1 flex justify-between text-[11px] text-white/50">
-              <span>{formatMs(derivedProgressMs)}</span>
-              <span>{formatMs(data?.durationMs)}</span>
+          {!isPlaceholder && (
+            <div>
+              <div className="h-1.5 w-full rounded-full bg-white/10">
+                <div
+                  className="h-full rounded-full bg-(--np-accent) transition-[width] duration-500 ease-out"
+                  style={{ width: `${progressPercent}%` }}
+                />
+              </div>
+              <div className="mt-1 flex justify-between text-[11px] text-white/50">
+                <span>{formatMs(derivedProgressMs)}</span>
+                <span>{formatMs(data?.durationMs)}</span>
+              </div>
             </div>
-          </div>
+          )}
 
-          {error && (
-            <div className="text-xs text-red-200/80">Playback lookup failed: {error}</div>
+          {error ? (
+            <div className="text-xs text-red-200/80">{ERROR_MESSAGES[error] ?? "Playback lookup failed."}</div>
+          ) : (
+            stale && (
+              <div className="text-xs text-amber-200/80">
+                The music service isn&apos;t responding. Showing the last known playback.
+              </div>
+            )
           )}
         </div>
       </div>
+
+      {!compact && isIdle && recent && recent.tracks.length > 0 && (
+        <div className="mt-5 border-t border-white/10 pt-4">
+          <div className="text-[11px] uppercase tracking-[0.32em] text-white/50">Recently played</div>
+          <ul className="mt-3 max-h-56 space-y-2 overflow-y-auto pr-1">
+            {recent.tracks.map((item) => (
+              <li key={`${item.trackId ?? item.track}-${item.playedAt}`} className="flex items-center gap-3">
+                <div className="h-10 w-10 flex-shrink-0 overflow-hidden rounded-md border border-white/10 bg-white/5">
+                  {item.albumImageUrl && (
+                    // Covers come from Spotify, Last.fm or any host a manual track names, so next/image's host list can't cover them.
+                    // eslint-disable-next-line @next/next/no-img-element
+                    <img
+                      src={item.albumImageUrl}
+                      alt={item.album ? `${item.album} cover` : "Album art"}
+                      className="h-full w-full object-cover"
+                      loading="lazy"
+                    />
+                  )}
+                </div>
+                <div className="min-w-0 flex-1">
+                  {item.trackUrl ? (
+                    <a
+                      href={item.trackUrl}
+                      target="_blank"
+                      rel="noreferrer"
+                      className="line-clamp-1 text-sm text-white transition hover:text-(--np-text)"
+                    >
+                      {item.track}
+                    </a>
+                  ) : (
+                    <div className="line-clamp-1 text-sm text-white">{item.track}</div>
+                  )}
+                  <div className="line-clamp-1 text-xs text-white/50">{item.artists || item.album}</div>
+                </div>
+                <div className="flex-shrink-0 text-[11px] text-white/40">{formatPlayedAgo(item.playedAt)}</div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
     </div>
   );
 }
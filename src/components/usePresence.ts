@@ -0,0 +1,80 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+
+export type PresenceVisitor = { id: string; lat: number; lng: number };
+
+type PresenceSnapshot = { count: number; visitors: PresenceVisitor[] };
+type PresenceSession = { id: string; publicId: string; heartbeatMs: number };
+
+const PRESENCE_URL = "/api/presence";
+const STREAM_URL = "/api/presence/stream";
+
+// Registers this page with the presence registry, keeps it alive, and follows the live visitor list.
+// `others` leaves out this page's own entry, which the globe already draws as "You".
+export const usePresence = (enabled = true) => {
+  const [snapshot, setSnapshot] = useState<PresenceSnapshot | null>(null);
+  const [publicId, setPublicId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!enabled) return;
+    let cancelled = false;
+    let sessionId: string | null = null;
+    let heartbeat: ReturnType<typeof setTimeout> | null = null;
+
+    const beat = async () => {
+      try {
+        const res = await fetch(PRESENCE_URL, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ id: sessionId }),
+          cache: "no-store",
+        });
+        if (cancelled) return;
+        if (res.ok) {
+          // The server hands out a new session if it forgot ours (a restart or a long sleep).
+          const session = (await res.json()) as PresenceSession;
+          sessionId = session.id;
+          setPublicId(session.publicId);
+          heartbeat = setTimeout(beat, session.heartbeatMs);
+          return;
+        }
+      } catch {
+        // Offline or mid-deploy; try again on the next beat.
+      }
+      if (!cancelled) heartbeat = setTimeout(beat, 30_000);
+    };
+
+    const leave = () => {
+      if (!sessionId) return;
+      fetch(`${PRESENCE_URL}?id=${sessionId}`, { method: "DELETE", keepalive: true }).catch(() => {});
+      sessionId = null;
+    };
+
+    beat();
+    window.addEventListener("pagehide", leave);
+
+    let source: EventSource | null = null;
+    if (typeof EventSource !== "undefined") {
+      source = new EventSource(STREAM_URL);
+      source.addEventListener("presence", (event: MessageEvent<string>) => {
+        setSnapshot(JSON.parse(event.data) as PresenceSnapshot);
+      });
+    }
+
+    return () => {
+      cancelled = true;
+      if (heartbeat) clearTimeout(heartbeat);
+      window.removeEventListener("pagehide", leave);
+      leave();
+      source?.close();
+    };
+  }, [enabled]);
+
+  const others = useMemo(
+    () => snapshot?.visitors.filter((visitor) => visitor.id !== publicId) ?? [],
+    [snapshot, publicId]
+  );
+
+  return { count: snapshot?.count ?? null, others };
+};
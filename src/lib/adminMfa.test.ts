@@ -0,0 +1,111 @@
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  beginMfaEnrollment,
+  confirmMfaEnrollment,
+  getMfaStatus,
+  parseMfaCodeInput,
+  verifyMfa,
+} from "@/lib/adminMfa";
+
+// Enroll with the RFC 6238 test secret so the codes below are known ahead of time.
+vi.mock("@/lib/totp", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/totp")>()),
+  generateTotpSecret: () => "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ",
+}));
+
+const USER = "admin";
+const at = (seconds: number) => vi.setSystemTime(seconds * 1000);
+
+// Enrolls at 1111111111s with that step's code, returning the recovery codes.
+const enroll = async () => {
+  at(1111111111);
+  await beginMfaEnrollment(USER, "admin");
+  const recoveryCodes = await confirmMfaEnrollment(USER, "050471");
+  if (!recoveryCodes) throw new Error("enrollment failed");
+  return recoveryCodes;
+};
+
+describe("parseMfaCodeInput", () => {
+  it("accepts either code as a string", () => {
+    expect(parseMfaCodeInput({ code: "123456" })).toEqual({ ok: true, value: { code: "123456" } });
+    expect(parseMfaCodeInput({ recoveryCode: "abcde-12345" })).toEqual({
+      ok: true,
+      value: { recoveryCode: "abcde-12345" },
+    });
+  });
+
+  it("rejects non-string codes and non-object bodies", () => {
+    expect(parseMfaCodeInput({ code: 123456 })).toEqual({ ok: false, error: "code must be a string" });
+    expect(parseMfaCodeInput({ recoveryCode: ["x"] })).toEqual({ ok: false, error: "recoveryCode must be a string" });
+    expect(parseMfaCodeInput("123456").ok).toBe(false);
+    expect(parseMfaCodeInput(null).ok).toBe(false);
+  });
+});
+
+describe("verifyMfa", () => {
+  let dataDir: string;
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), "mfa-test-"));
+    vi.stubEnv("DATA_DIR", dataDir);
+    vi.useFakeTimers({ toFake: ["Date"] });
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  it("rejects every code before enrollment is confirmed", async () => {
+    at(1111111111);
+    await beginMfaEnrollment(USER, "admin");
+    expect(await verifyMfa(USER, { code: "050471" })).toBe(false);
+    expect(await confirmMfaEnrollment(USER, "000000")).toBeNull();
+    expect((await getMfaStatus(USER)).enabled).toBe(false);
+  });
+
+  it("accepts a fresh code once", async () => {
+    await enroll();
+    at(1234567890);
+    expect(await verifyMfa(USER, { code: "005924" })).toBe(true);
+    expect(await verifyMfa(USER, { code: "005924" })).toBe(false);
+  });
+
+  it("rejects the code used to enroll, and earlier steps inside the window", async () => {
+    await enroll();
+    expect(await verifyMfa(USER, { code: "050471" })).toBe(false);
+    expect(await verifyMfa(USER, { code: "081804" })).toBe(false);
+  });
+
+  it("lets only one of two concurrent requests with the same code through", async () => {
+    await enroll();
+    at(1234567890);
+    const results = await Promise.all([verifyMfa(USER, { code: "005924" }), verifyMfa(USER, { code: "005924" })]);
+    expect(results.filter(Boolean)).toHaveLength(1);
+  });
+
+  it("burns a recovery code on first use, however it is typed", async () => {
+    const [first, second] = await enroll();
+    expect((await getMfaStatus(USER)).recoveryCodesRemaining).toBe(10);
+
+    expect(await verifyMfa(USER, { recoveryCode: first.toUpperCase().replace("-", " ") })).toBe(true);
+    expect(await verifyMfa(USER, { recoveryCode: first })).toBe(false);
+    expect((await getMfaStatus(USER)).recoveryCodesRemaining).toBe(9);
+
+    const results = await Promise.all([
+      verifyMfa(USER, { recoveryCode: second }),
+      verifyMfa(USER, { recoveryCode: second }),
+    ]);
+    expect(results.filter(Boolean)).toHaveLength(1);
+    expect((await getMfaStatus(USER)).recoveryCodesRemaining).toBe(8);
+  });
+
+  it("rejects unknown recovery codes and empty input", async () => {
+    await enroll();
+    expect(await verifyMfa(USER, { recoveryCode: "00000-00000" })).toBe(false);
+    expect(await verifyMfa(USER, {})).toBe(false);
+  });
+});
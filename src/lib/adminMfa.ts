@@ -0,0 +1,128 @@
+import crypto from "crypto";
+import { readJson, updateJson } from "@/lib/store";
+import { generateTotpSecret, otpauthUri, verifyTotp } from "@/lib/totp";
+
+type MfaRecord = {
+  secret?: string; // set once enrollment is confirmed
+  pendingSecret?: string; // shown to the user, waiting for a first valid code
+  enabledAt?: number;
+  recoveryCodes: string[]; // sha256 hex of unused codes
+  lastCounter?: number; // last accepted TOTP step, to reject replays
+};
+
+type MfaRegistry = Record<string, MfaRecord>;
+
+export type MfaCodeInput = { code?: string; recoveryCode?: string };
+
+const STORE_KEY = "admin-mfa";
+const ISSUER = "juric.dev";
+const RECOVERY_CODE_COUNT = 10;
+
+const hashRecoveryCode = (code: string) =>
+  crypto.createHash("sha256").update(code.replace(/[^a-z0-9]/gi, "").toLowerCase()).digest("hex");
+
+// 10 hex chars shown as xxxxx-xxxxx.
+const generateRecoveryCodes = () =>
+  Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = crypto.randomBytes(5).toString("hex");
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+
+const readRecord = async (userId: string): Promise<MfaRecord | null> => {
+  const registry = await readJson<MfaRegistry>(STORE_KEY, {});
+  return registry[userId] ?? null;
+};
+
+const writeRecord = (userId: string, update: (current: MfaRecord) => MfaRecord | null) =>
+  updateJson<MfaRegistry>(STORE_KEY, {}, (registry) => {
+    const next = update(registry[userId] ?? { recoveryCodes: [] });
+    const copy = { ...registry };
+    if (next) copy[userId] = next;
+    else delete copy[userId];
+    return copy;
+  });
+
+export const parseMfaCodeInput = (
+  input: unknown
+): { ok: true; value: MfaCodeInput } | { ok: false; error: string } => {
+  if (!input || typeof input !== "object") return { ok: false, error: "Expected an object body" };
+  const { code, recoveryCode } = input as { code?: unknown; recoveryCode?: unknown };
+  if (code !== undefined && typeof code !== "string") return { ok: false, error: "code must be a string" };
+  if (recoveryCode !== undefined && typeof recoveryCode !== "string") {
+    return { ok: false, error: "recoveryCode must be a string" };
+  }
+  return { ok: true, value: { code, recoveryCode } };
+};
+
+export const isMfaEnabled = async (userId: string) => Boolean((await readRecord(userId))?.secret);
+
+export const getMfaStatus = async (userId: string) => {
+  const record = await readRecord(userId);
+  return {
+    enabled: Boolean(record?.secret),
+    enabledAt: record?.enabledAt,
+    recoveryCodesRemaining: record?.secret ? record.recoveryCodes.length : 0,
+  };
+};
+
+export const beginMfaEnrollment = async (userId: string, account: string) => {
+  const secret = generateTotpSecret();
+  await writeRecord(userId, (current) => ({ ...current, pendingSecret: secret }));
+  return { secret, uri: otpauthUri({ secret, account, issuer: ISSUER }) };
+};
+
+// Returns the plaintext recovery codes exactly once, or null when the code doesn't match.
+export const confirmMfaEnrollment = async (userId: string, code: string) => {
+  const record = await readRecord(userId);
+  if (!record?.pendingSecret) return null;
+  const counter = verifyTotp(record.pendingSecret, code);
+  if (counter === null) return null;
+
+  const recoveryCodes = generateRecoveryCodes();
+  await writeRecord(userId, () => ({
+    secret: record.pendingSecret,
+    enabledAt: Date.now(),
+    recoveryCodes: recoveryCodes.map(hashRecoveryCode),
+    lastCounter: counter,
+  }));
+  return recoveryCodes;
+};
+
+// Accepts either a current TOTP code or an unused recovery code (which is then burned). The check and
+// the write happen in one store update, so two requests racing with the same code can't both pass.
+export const verifyMfa = async (userId: string, input: MfaCodeInput) => {
+  const record = await readRecord(userId);
+  if (!record?.secret) return false;
+  const { code, recoveryCode } = input;
+
+  let accepted = false;
+  if (code) {
+    await writeRecord(userId, (current) => {
+      const counter = current.secret ? verifyTotp(current.secret, code) : null;
+      if (counter === null || (current.lastCounter !== undefined && counter <= current.lastCounter)) return current;
+      accepted = true;
+      return { ...current, lastCounter: counter };
+    });
+    return accepted;
+  }
+
+  if (recoveryCode) {
+    const hashed = hashRecoveryCode(recoveryCode);
+    await writeRecord(userId, (current) => {
+      if (!current.secret || !current.recoveryCodes.includes(hashed)) return current;
+      accepted = true;
+      return { ...current, recoveryCodes: current.recoveryCodes.filter((c) => c !== hashed) };
+    });
+    return accepted;
+  }
+
+  return false;
+};
+
+export const regenerateRecoveryCodes = async (userId: string) => {
+  const recoveryCodes = generateRecoveryCodes();
+  await writeRecord(userId, (current) => ({ ...current, recoveryCodes: recoveryCodes.map(hashRecoveryCode) }));
+  return recoveryCodes;
+};
+
+export const disableMfa = (userId: string) => writeRecord(userId, () => null);
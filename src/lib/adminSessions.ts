@@ -0,0 +1,96 @@
+import { readJson, updateJson } from "@/lib/store";
+
+export type SessionRecord = {
+  sid: string;
+  userId: string;
+  username: string;
+  createdAt: number; // ms since epoch
+  expiresAt: number;
+  lastSeenAt?: number;
+  revokedAt?: number;
+  userAgent?: string;
+  ip?: string;
+};
+
+type SessionRegistry = Record<string, SessionRecord>;
+
+const STORE_KEY = "admin-sessions";
+const TOUCH_INTERVAL_MS = 5 * 60 * 1000; // avoid a disk write on every authenticated request
+const REVOKED_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+const readRegistry = () => readJson<SessionRegistry>(STORE_KEY, {});
+
+// Drop sessions that expired, and revoked ones once they're old enough not to be interesting.
+const prune = (registry: SessionRegistry) => {
+  const now = Date.now();
+  const kept: SessionRegistry = {};
+  for (const record of Object.values(registry)) {
+    if (record.expiresAt < now) continue;
+    if (record.revokedAt && record.revokedAt + REVOKED_RETENTION_MS < now) continue;
+    kept[record.sid] = record;
+  }
+  return kept;
+};
+
+export const registerSession = (record: SessionRecord) =>
+  updateJson<SessionRegistry>(STORE_KEY, {}, (registry) => ({
+    ...prune(registry),
+    [record.sid]: { ...record, lastSeenAt: record.createdAt },
+  }));
+
+export const getSessionRecord = async (sid: string) => {
+  const registry = await readRegistry();
+  const record = registry[sid];
+  if (!record || record.expiresAt < Date.now()) return null;
+  return record;
+};
+
+export const touchSession = async (sid: string) => {
+  const record = await getSessionRecord(sid);
+  if (!record || (record.lastSeenAt && Date.now() - record.lastSeenAt < TOUCH_INTERVAL_MS)) return;
+  await updateJson<SessionRegistry>(STORE_KEY, {}, (registry) => {
+    const current = registry[sid];
+    if (!current) return registry;
+    return { ...registry, [sid]: { ...current, lastSeenAt: Date.now() } };
+  });
+};
+
+// Active sessions first, most recently used on top. Pass a user id to list only that user's sessions.
+export const listSessions = async (userId?: string) => {
+  const registry = prune(await readRegistry());
+  return Object.values(registry)
+    .filter((record) => !userId || record.userId === userId)
+    .sort((a, b) => {
+      if (Boolean(a.revokedAt) !== Boolean(b.revokedAt)) return a.revokedAt ? 1 : -1;
+      return (b.lastSeenAt ?? b.createdAt) - (a.lastSeenAt ?? a.createdAt);
+    });
+};
+
+export const revokeSession = async (sid: string) => {
+  let found = false;
+  await updateJson<SessionRegistry>(STORE_KEY, {}, (registry) => {
+    const current = registry[sid];
+    if (!current || current.revokedAt) return registry;
+    found = true;
+    return { ...registry, [sid]: { ...current, revokedAt: Date.now() } };
+  });
+  return found;
+};
+
+export const revokeOtherSessions = async (keepSid: string, userId?: string) => {
+  let count = 0;
+  await updateJson<SessionRegistry>(STORE_KEY, {}, (registry) => {
+    const now = Date.now();
+    const next: SessionRegistry = {};
+    for (const record of Object.values(registry)) {
+      if (record.sid !== keepSid && !record.revokedAt && (!userId || record.userId === userId)) {
+        next[record.sid] = { ...record, revokedAt: now };
+        count += 1;
+      } else {
+        next[record.sid] = record;
+      }
+    }
+    return next;
+  });
+  return count;
+};
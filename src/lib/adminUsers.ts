@@ -0,0 +1,82 @@
+import { constantTimeEquals, isPasswordHash, verifyPassword } from "@/lib/passwords";
+
+export type AdminRole = "admin" | "editor";
+
+export type AdminUser = {
+  id: string; // lower-cased username; stable across restarts
+  username: string;
+  role: AdminRole;
+  passwordHash: string;
+};
+
+const ROLES: AdminRole[] = ["admin", "editor"];
+const ROLE_RANK: Record<AdminRole, number> = { editor: 1, admin: 2 };
+const DEFAULT_USERNAME = "admin";
+
+// Verified when the username is unknown, so a miss costs the same as a wrong password.
+const DUMMY_HASH = "scrypt.16384.8.1.AAAAAAAAAAAAAAAAAAAAAA.AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA";
+
+let warnedAboutPlaintext = false;
+
+// ADMIN_USERS="alice:admin:scrypt...,bob:editor:scrypt..." (generate entries with `npm run hash-password`).
+// ADMIN_PASSWORD_HASH (+ optional ADMIN_USERNAME) configures a single admin; plaintext ADMIN_PASSWORD is
+// still honoured for existing setups but should be replaced.
+const loadUsers = (): { users: AdminUser[]; plaintext: string | null } => {
+  const users: AdminUser[] = [];
+
+  for (const entry of (process.env.ADMIN_USERS ?? "").split(",")) {
+    const trimmed = entry.trim();
+    if (!trimmed) continue;
+    const [username, role, passwordHash] = trimmed.split(":");
+    if (!username || !ROLES.includes(role as AdminRole) || !passwordHash || !isPasswordHash(passwordHash)) {
+      console.warn(`Ignoring malformed ADMIN_USERS entry for "${username ?? ""}"`);
+      continue;
+    }
+    users.push({ id: username.toLowerCase(), username, role: role as AdminRole, passwordHash });
+  }
+
+  const singleHash = process.env.ADMIN_PASSWORD_HASH;
+  const singleName = process.env.ADMIN_USERNAME || DEFAULT_USERNAME;
+  if (singleHash && isPasswordHash(singleHash) && !users.some((u) => u.id === singleName.toLowerCase())) {
+    users.push({ id: singleName.toLowerCase(), username: singleName, role: "admin", passwordHash: singleHash });
+  }
+
+  const plaintext = users.length === 0 ? process.env.ADMIN_PASSWORD || null : null;
+  return { users, plaintext };
+};
+
+export const hasAdminUsers = () => {
+  const { users, plaintext } = loadUsers();
+  return users.length > 0 || plaintext !== null;
+};
+
+export const findAdminUser = (id: string): Omit<AdminUser, "passwordHash"> | null => {
+  const { users, plaintext } = loadUsers();
+  const user = users.find((u) => u.id === id.toLowerCase());
+  if (user) return { id: user.id, username: user.username, role: user.role };
+  if (plaintext && id.toLowerCase() === DEFAULT_USERNAME) {
+    return { id: DEFAULT_USERNAME, username: DEFAULT_USERNAME, role: "admin" };
+  }
+  return null;
+};
+
+export const authenticateAdminUser = async (username: string, password: string) => {
+  const { users, plaintext } = loadUsers();
+  const id = (username || DEFAULT_USERNAME).toLowerCase();
+
+  if (plaintext) {
+    if (!warnedAboutPlaintext) {
+      console.warn("ADMIN_PASSWORD is plaintext; generate ADMIN_USERS entries with `npm run hash-password`.");
+      warnedAboutPlaintext = true;
+    }
+    if (id !== DEFAULT_USERNAME || !constantTimeEquals(password, plaintext)) return null;
+    return findAdminUser(DEFAULT_USERNAME);
+  }
+
+  const user = users.find((u) => u.id === id);
+  const ok = await verifyPassword(password, user?.passwordHash ?? DUMMY_HASH);
+  if (!user || !ok) return null;
+  return { id: user.id, username: user.username, role: user.role };
+};
+
+export const roleAtLeast = (role: AdminRole, required: AdminRole) => ROLE_RANK[role] >= ROLE_RANK[required];
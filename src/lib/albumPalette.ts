@@ -0,0 +1,145 @@
+import sharp from "sharp";
+import { createLruCache } from "@/lib/lruCache";
+
+// Hex colors for theming the now-playing card and the globe. `accent` and `text` are already
+// lightened as needed to stay readable on the card's dark background.
+export type AlbumPalette = {
+  dominant: string; // most common color, for the glow
+  accent: string; // most vivid common color, for the progress bar, border and arcs
+  text: string; // accent variant safe for small text
+};
+
+type Rgb = [number, number, number];
+
+const SAMPLE_SIZE = 32; // covers are downscaled to SAMPLE_SIZE² pixels before counting colors
+const MIN_ACCENT_SHARE = 0.02; // ignore colors covering less of the image than this
+const MIN_ACCENT_CHROMA = 0.12; // below this a cover is effectively greyscale; use the dominant color
+const MAX_IMAGE_BYTES = 2 * 1024 * 1024;
+const FETCH_TIMEOUT_MS = 4_000;
+const FAILURE_TTL_MS = 10 * 60 * 1000; // retry a cover that failed to load after this long
+
+// bg-white/5 over bg-neutral-950, the card's effective background.
+const CARD_BACKGROUND: Rgb = [22, 22, 22];
+const MIN_GLOW_CONTRAST = 1.5;
+const MIN_UI_CONTRAST = 3; // WCAG 1.4.11 for graphical objects
+const MIN_TEXT_CONTRAST = 4.5; // WCAG 1.4.3 for body text
+
+const paletteCache = createLruCache<AlbumPalette | null>({ maxEntries: 256, ttlMs: 24 * 60 * 60 * 1000 });
+const inflight = new Map<string, Promise<AlbumPalette | null>>();
+
+const luminance = ([r, g, b]: Rgb) => {
+  const [lr, lg, lb] = [r, g, b].map((c) => {
+    const s = c / 255;
+    return s <= 0.03928 ? s / 12.92 : ((s + 0.055) / 1.055) ** 2.4;
+  });
+  return 0.2126 * lr + 0.7152 * lg + 0.0722 * lb;
+};
+
+const contrastRatio = (a: Rgb, b: Rgb) => {
+  const [hi, lo] = [luminance(a), luminance(b)].sort((x, y) => y - x);
+  return (hi + 0.05) / (lo + 0.05);
+};
+
+const mix = ([r, g, b]: Rgb, [r2, g2, b2]: Rgb, t: number): Rgb => [
+  Math.round(r + (r2 - r) * t),
+  Math.round(g + (g2 - g) * t),
+  Math.round(b + (b2 - b) * t),
+];
+
+// Blends toward white in small steps until the color reaches `ratio` against the card background.
+const liftToContrast = (color: Rgb, ratio: number): Rgb => {
+  for (let t = 0; t <= 1; t += 0.05) {
+    const candidate = mix(color, [255, 255, 255], t);
+    if (contrastRatio(candidate, CARD_BACKGROUND) >= ratio) return candidate;
+  }
+  return [255, 255, 255];
+};
+
+const chroma = ([r, g, b]: Rgb) => (Math.max(r, g, b) - Math.min(r, g, b)) / 255;
+
+const toHex = (rgb: Rgb) => `#${rgb.map((c) => c.toString(16).padStart(2, "0")).join("")}`;
+
+// Buckets pixels by their top 4 bits per channel and averages each bucket. The dominant color is the
+// biggest bucket; the accent is the one that best trades vividness against coverage.
+const extractPalette = (pixels: Buffer): AlbumPalette => {
+  const buckets = new Map<number, { count: number; r: number; g: number; b: number }>();
+  for (let i = 0; i + 2 < pixels.length; i += 3) {
+    const key = ((pixels[i] >> 4) << 8) | ((pixels[i + 1] >> 4) << 4) | (pixels[i + 2] >> 4);
+    const bucket = buckets.get(key) ?? { count: 0, r: 0, g: 0, b: 0 };
+    bucket.count += 1;
+    bucket.r += pixels[i];
+    bucket.g += pixels[i + 1];
+    bucket.b += pixels[i + 2];
+    buckets.set(key, bucket);
+  }
+
+  const total = pixels.length / 3;
+  const colors = [...buckets.values()]
+    .map(({ count, r, g, b }) => ({
+      share: count / total,
+      rgb: [Math.round(r / count), Math.round(g / count), Math.round(b / count)] as Rgb,
+    }))
+    .sort((a, b) => b.share - a.share);
+
+  const dominant = colors[0]?.rgb ?? CARD_BACKGROUND;
+  let accent = dominant;
+  let bestScore = 0;
+  for (const { share, rgb } of colors) {
+    if (share < MIN_ACCENT_SHARE || chroma(rgb) < MIN_ACCENT_CHROMA) continue;
+    const score = chroma(rgb) * Math.sqrt(share);
+    if (score > bestScore) {
+      bestScore = score;
+      accent = rgb;
+    }
+  }
+
+  const readableAccent = liftToContrast(accent, MIN_UI_CONTRAST);
+  return {
+    dominant: toHex(liftToContrast(dominant, MIN_GLOW_CONTRAST)),
+    accent: toHex(readableAccent),
+    text: toHex(liftToContrast(readableAccent, MIN_TEXT_CONTRAST)),
+  };
+};
+
+const computePalette = async (imageUrl: string) => {
+  const res = await fetch(imageUrl, { cache: "no-store", signal: AbortSignal.timeout(FETCH_TIMEOUT_MS) });
+  if (!res.ok) throw new Error(`Cover fetch failed: ${res.status}`);
+  if (Number(res.headers.get("content-length") ?? 0) > MAX_IMAGE_BYTES) throw new Error("Cover is too large");
+
+  const image = Buffer.from(await res.arrayBuffer());
+  if (image.length > MAX_IMAGE_BYTES) throw new Error("Cover is too large");
+
+  const pixels = await sharp(image)
+    .resize(SAMPLE_SIZE, SAMPLE_SIZE, { fit: "cover" })
+    .removeAlpha()
+    .toColourspace("srgb")
+    .raw()
+    .toBuffer();
+  return extractPalette(pixels);
+};
+
+// Cached per image URL, with concurrent lookups for the same cover sharing one download. Resolves to
+// null for anything that can't be fetched or decoded, so callers can fall back to the default theme.
+export const getAlbumPalette = async (imageUrl: string | undefined) => {
+  if (!imageUrl?.startsWith("https://")) return null;
+
+  const cached = paletteCache.get(imageUrl);
+  if (cached !== undefined) return cached;
+
+  let pending = inflight.get(imageUrl);
+  if (!pending) {
+    pending = computePalette(imageUrl)
+      .then((palette) => {
+        paletteCache.set(imageUrl, palette);
+        return palette;
+      })
+      .catch((error) => {
+        console.warn("Album palette extraction failed", imageUrl, error);
+        paletteCache.set(imageUrl, null, FAILURE_TTL_MS);
+        return null;
+      })
+      .finally(() => inflight.delete(imageUrl));
+    inflight.set(imageUrl, pending);
+  }
+  return pending;
+};
@@ -0,0 +1,145 @@
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  deriveSecret,
+  getAdminSession,
+  issueAdminToken,
+  issueMfaChallenge,
+  issueOAuthState,
+  resignAdminToken,
+  validateAdminToken,
+  verifyMfaChallenge,
+  verifyOAuthState,
+} from "@/lib/auth";
+
+const ADMIN = { id: "admin", username: "admin", role: "admin" as const };
+
+describe("signing key ring", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("falls back to ADMIN_SESSION_SECRET", () => {
+    vi.stubEnv("ADMIN_SESSION_KEYS", "");
+    vi.stubEnv("ADMIN_SESSION_SECRET", "legacy-secret");
+    const challenge = issueMfaChallenge("admin");
+    expect(challenge.startsWith("default.")).toBe(true);
+    expect(verifyMfaChallenge(challenge)).toBe("admin");
+  });
+
+  it("signs with the first key and still accepts the older ones", () => {
+    vi.stubEnv("ADMIN_SESSION_KEYS", "old=old-secret");
+    const oldChallenge = issueMfaChallenge("admin");
+
+    vi.stubEnv("ADMIN_SESSION_KEYS", "new=new-secret,old=old-secret");
+    const newChallenge = issueMfaChallenge("admin");
+    expect(newChallenge.startsWith("new.")).toBe(true);
+    expect(verifyMfaChallenge(oldChallenge)).toBe("admin");
+    expect(verifyMfaChallenge(newChallenge)).toBe("admin");
+  });
+
+  it("stops accepting a retired key after its cut-off date", () => {
+    vi.useFakeTimers({ now: new Date("2026-10-01T00:00:00Z") });
+    vi.stubEnv("ADMIN_SESSION_KEYS", "old=old-secret");
+    const state = issueOAuthState("admin");
+
+    vi.stubEnv("ADMIN_SESSION_KEYS", "new=new-secret,old=old-secret@2026-10-01T00:05:00Z");
+    vi.setSystemTime(new Date("2026-10-01T00:04:00Z"));
+    expect(verifyOAuthState(state)).toBe("admin");
+    vi.setSystemTime(new Date("2026-10-01T00:06:00Z"));
+    expect(verifyOAuthState(state)).toBeNull();
+  });
+
+  it("rejects tokens from a key that was removed", () => {
+    vi.stubEnv("ADMIN_SESSION_KEYS", "old=old-secret");
+    const challenge = issueMfaChallenge("admin");
+    vi.stubEnv("ADMIN_SESSION_KEYS", "new=new-secret");
+    expect(verifyMfaChallenge(challenge)).toBeNull();
+  });
+
+  it("rejects a token re-labelled with another key id", () => {
+    vi.stubEnv("ADMIN_SESSION_KEYS", "new=new-secret,old=old-secret");
+    const [, body, sig] = issueMfaChallenge("admin").split(".");
+    expect(verifyMfaChallenge(`old.${body}.${sig}`)).toBeNull();
+  });
+
+  it("keeps challenges and OAuth states apart", () => {
+    vi.stubEnv("ADMIN_SESSION_KEYS", "k=secret");
+    expect(verifyOAuthState(issueMfaChallenge("admin"))).toBeNull();
+    expect(verifyMfaChallenge(issueOAuthState("admin"))).toBeNull();
+  });
+
+  it("expires challenges after five minutes", () => {
+    vi.useFakeTimers({ now: new Date("2026-10-01T00:00:00Z") });
+    vi.stubEnv("ADMIN_SESSION_KEYS", "k=secret");
+    const challenge = issueMfaChallenge("admin");
+    vi.setSystemTime(new Date("2026-10-01T00:05:01Z"));
+    expect(verifyMfaChallenge(challenge)).toBeNull();
+  });
+
+  it("treats a malformed key ring as a failed check", () => {
+    vi.stubEnv("ADMIN_SESSION_KEYS", "k=secret");
+    const challenge = issueMfaChallenge("admin");
+    vi.stubEnv("ADMIN_SESSION_KEYS", "k=secret@not-a-date");
+    expect(verifyMfaChallenge(challenge)).toBeNull();
+  });
+});
+
+describe("deriveSecret", () => {
+  it("is stable per purpose and follows the signing key", () => {
+    vi.stubEnv("ADMIN_SESSION_KEYS", "new=new-secret,old=old-secret");
+    const jitter = deriveSecret("location-jitter");
+    expect(deriveSecret("location-jitter")).toBe(jitter);
+    expect(deriveSecret("something-else")).not.toBe(jitter);
+    expect(jitter).not.toContain("new-secret");
+
+    vi.stubEnv("ADMIN_SESSION_KEYS", "newer=newer-secret,new=new-secret");
+    expect(deriveSecret("location-jitter")).not.toBe(jitter);
+  });
+
+  it("throws when no key is configured", () => {
+    vi.stubEnv("ADMIN_SESSION_KEYS", "");
+    vi.stubEnv("ADMIN_SESSION_SECRET", "");
+    expect(() => deriveSecret("location-jitter")).toThrow();
+  });
+});
+
+describe("admin sessions", () => {
+  let dataDir: string;
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), "auth-test-"));
+    vi.stubEnv("DATA_DIR", dataDir);
+    vi.stubEnv("ADMIN_USERS", "");
+    vi.stubEnv("ADMIN_PASSWORD_HASH", "");
+    vi.stubEnv("ADMIN_PASSWORD", "pw");
+  });
+
+  afterEach(async () => {
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  it("asks for a re-sign once the signing key has rotated", async () => {
+    vi.stubEnv("ADMIN_SESSION_KEYS", "old=old-secret");
+    const token = await issueAdminToken(ADMIN);
+    expect((await getAdminSession(token))?.rotate).toBe(false);
+
+    vi.stubEnv("ADMIN_SESSION_KEYS", "new=new-secret,old=old-secret");
+    const current = await getAdminSession(token);
+    expect(current?.rotate).toBe(true);
+
+    const resigned = resignAdminToken(current!.session);
+    const after = await getAdminSession(resigned);
+    expect(after?.rotate).toBe(false);
+    expect(after?.session.sid).toBe(current!.session.sid);
+  });
+
+  it("rejects tokens whose session is not in the registry", async () => {
+    vi.stubEnv("ADMIN_SESSION_KEYS", "k=secret");
+    const token = await issueAdminToken(ADMIN);
+    await fs.rm(path.join(dataDir, "admin-sessions.json"));
+    expect(await validateAdminToken(token)).toBe(false);
+  });
+});
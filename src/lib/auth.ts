@@ -1,58 +1,226 @@
 import crypto from "crypto";
+import { getSessionRecord, registerSession, revokeSession, touchSession } from "@/lib/adminSessions";
+import { findAdminUser, roleAtLeast } from "@/lib/adminUsers";
+import type { AdminRole } from "@/lib/adminUsers";
 
-type AdminSession = {
-  role: "admin";
+export type AdminSession = {
+  sid: string;
+  uid: string;
+  role: AdminRole;
+  iat: number; // ms since epoch
   exp: number; // ms since epoch
 };
 
+type SigningKey = {
+  kid: string;
+  secret: string;
+  acceptUntil: number | null; // null = no cut-off
+};
+
 const SESSION_COOKIE_NAME = "petar_admin_session";
 const SESSION_TTL_MS = 365 * 24 * 60 * 60 * 1000; // 1 year
+const LEGACY_KID = "default";
+const MFA_CHALLENGE_TTL_MS = 5 * 60 * 1000;
+const OAUTH_STATE_TTL_MS = 10 * 60 * 1000;
+
+// ADMIN_SESSION_KEYS="2026b=newsecret,2026a=oldsecret@2026-11-01": the first key signs new tokens,
+// later keys only verify, optionally until the date after "@". Falls back to ADMIN_SESSION_SECRET.
+const getKeyRing = (): SigningKey[] => {
+  const configured = process.env.ADMIN_SESSION_KEYS;
+  if (!configured) {
+    const secret = process.env.ADMIN_SESSION_SECRET;
+    if (!secret) throw new Error("Missing ADMIN_SESSION_KEYS or ADMIN_SESSION_SECRET");
+    return [{ kid: LEGACY_KID, secret, acceptUntil: null }];
+  }
+
+  const keys = configured
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry): SigningKey => {
+      const eq = entry.indexOf("=");
+      if (eq <= 0) throw new Error("ADMIN_SESSION_KEYS entries must look like kid=secret");
+      const kid = entry.slice(0, eq);
+      const [secret, until] = entry.slice(eq + 1).split("@");
+      const acceptUntil = until ? Date.parse(until) : null;
+      if (!secret) throw new Error(`ADMIN_SESSION_KEYS entry ${kid} has no secret`);
+      if (acceptUntil !== null && Number.isNaN(acceptUntil)) {
+        throw new Error(`ADMIN_SESSION_KEYS entry ${kid} has an invalid date`);
+      }
+      return { kid, secret, acceptUntil };
+    });
 
-const getSecret = () => {
-  const secret = process.env.ADMIN_SESSION_SECRET;
-  if (!secret) throw new Error("Missing ADMIN_SESSION_SECRET");
-  return secret;
+  if (keys.length === 0) throw new Error("ADMIN_SESSION_KEYS is empty");
+  return keys;
 };
 
-const encode = (session: AdminSession, secret: string) => {
-  const payload = Buffer.from(JSON.stringify(session)).toString("base64url");
-  const sig = crypto.createHmac("sha256", secret).update(payload).digest("base64url");
-  return `${payload}.${sig}`;
+const sign = (payload: string, secret: string) =>
+  crypto.createHmac("sha256", secret).update(payload).digest("base64url");
+
+const safeEqual = (a: string, b: string) => {
+  const bufA = Buffer.from(a);
+  const bufB = Buffer.from(b);
+  return bufA.length === bufB.length && crypto.timingSafeEqual(bufA, bufB);
 };
 
-const decode = (token: string, secret: string): AdminSession | null => {
-  const [payload, sig] = token.split(".");
-  if (!payload || !sig) return null;
-  const expected = crypto.createHmac("sha256", secret).update(payload).digest("base64url");
-  if (!crypto.timingSafeEqual(Buffer.from(sig), Buffer.from(expected))) return null;
+const encode = (payload: object, key: SigningKey) => {
+  const body = Buffer.from(JSON.stringify(payload)).toString("base64url");
+  return `${key.kid}.${body}.${sign(`${key.kid}.${body}`, key.secret)}`;
+};
+
+// Checks the signature against the key ring; the caller validates the payload shape.
+const verifySigned = (token: string, keys: SigningKey[]): { payload: unknown; kid: string } | null => {
+  const [kid, body, sig] = token.split(".");
+  if (!kid || !body || !sig) return null;
+
+  const key = keys.find((k) => k.kid === kid);
+  if (!key) return null;
+  if (key.acceptUntil !== null && key.acceptUntil < Date.now()) return null;
+  if (!safeEqual(sig, sign(`${kid}.${body}`, key.secret))) return null;
+
   try {
-    const session = JSON.parse(Buffer.from(payload, "base64url").toString("utf8")) as AdminSession;
-    if (session.role !== "admin") return null;
-    if (!Number.isFinite(session.exp) || session.exp < Date.now()) return null;
-    return session;
+    return { payload: JSON.parse(Buffer.from(body, "base64url").toString("utf8")), kid };
   } catch {
     return null;
   }
 };
 
-export const issueAdminToken = () => {
-  const secret = getSecret();
+const decode = (token: string, keys: SigningKey[]): { session: AdminSession; kid: string } | null => {
+  const verified = verifySigned(token, keys);
+  if (!verified) return null;
+  const session = verified.payload as AdminSession | null;
+  if (!session || typeof session.sid !== "string" || typeof session.uid !== "string") return null;
+  if (!Number.isFinite(session.exp) || session.exp < Date.now()) return null;
+  return { session, kid: verified.kid };
+};
+
+export const issueAdminToken = async (
+  user: { id: string; username: string; role: AdminRole },
+  meta: { userAgent?: string; ip?: string } = {}
+) => {
+  const [signingKey] = getKeyRing();
+  const now = Date.now();
   const session: AdminSession = {
-    role: "admin",
-    exp: Date.now() + SESSION_TTL_MS,
+    sid: crypto.randomBytes(16).toString("base64url"),
+    uid: user.id,
+    role: user.role,
+    iat: now,
+    exp: now + SESSION_TTL_MS,
+  };
+  await registerSession({
+    sid: session.sid,
+    userId: user.id,
+    username: user.username,
+    createdAt: now,
+    expiresAt: session.exp,
+    ...meta,
+  });
+  return encode(session, signingKey);
+};
+
+// Signature, expiry, the server-side registry and the user list must all agree. The role comes from
+// the user list rather than the token, so demoting a user takes effect immediately. `rotate` is set
+// when the token was signed by a key other than the current signing key.
+export const getAdminSession = async (
+  token: string | undefined | null
+): Promise<{ session: AdminSession; rotate: boolean } | null> => {
+  if (!token) return null;
+  try {
+    const keys = getKeyRing();
+    const decoded = decode(token, keys);
+    if (!decoded) return null;
+
+    const record = await getSessionRecord(decoded.session.sid);
+    if (!record || record.revokedAt) return null;
+
+    const user = findAdminUser(decoded.session.uid);
+    if (!user) return null;
+
+    await touchSession(decoded.session.sid);
+    return { session: { ...decoded.session, role: user.role }, rotate: decoded.kid !== keys[0].kid };
+  } catch {
+    return null;
+  }
+};
+
+export const validateAdminToken = async (token: string | undefined | null, requiredRole: AdminRole = "editor") => {
+  const current = await getAdminSession(token);
+  return current !== null && roleAtLeast(current.session.role, requiredRole);
+};
+
+// A secret for some other purpose, derived from the current signing key so it never leaves this module.
+// It changes whenever the first key in the ring does.
+export const deriveSecret = (purpose: string) => sign(`derive:${purpose}`, getKeyRing()[0].secret);
+
+// Re-sign an existing session with the current key without changing its id or expiry.
+export const resignAdminToken = (session: AdminSession) => encode(session, getKeyRing()[0]);
+
+export const revokeAdminToken = async (token: string | undefined | null) => {
+  const current = await getAdminSession(token);
+  if (!current) return false;
+  await revokeSession(current.session.sid);
+  return true;
+};
+
+type MfaChallenge = { typ: "mfa"; uid: string; exp: number };
+
+// Short-lived proof that the password step passed; exchanged for a session once the second factor checks out.
+export const issueMfaChallenge = (uid: string) => {
+  const challenge: MfaChallenge = { typ: "mfa", uid, exp: Date.now() + MFA_CHALLENGE_TTL_MS };
+  return encode(challenge, getKeyRing()[0]);
+};
+
+export const verifyMfaChallenge = (token: string | undefined | null) => {
+  if (!token) return null;
+  try {
+    const verified = verifySigned(token, getKeyRing());
+    const challenge = verified?.payload as MfaChallenge | undefined;
+    if (!challenge || challenge.typ !== "mfa" || typeof challenge.uid !== "string") return null;
+    if (!Number.isFinite(challenge.exp) || challenge.exp < Date.now()) return null;
+    return challenge.uid;
+  } catch {
+    return null;
+  }
+};
+
+type OAuthState = { typ: "oauth"; uid: string; nonce: string; exp: number };
+
+// `state` for an OAuth round-trip. The provider's redirect back is cross-site, so the SameSite=strict
+// session cookie isn't sent; the callback trusts this signed token (echoed in a lax cookie) instead.
+export const issueOAuthState = (uid: string) => {
+  const state: OAuthState = {
+    typ: "oauth",
+    uid,
+    nonce: crypto.randomBytes(12).toString("base64url"),
+    exp: Date.now() + OAUTH_STATE_TTL_MS,
   };
-  return encode(session, secret);
+  return encode(state, getKeyRing()[0]);
 };
 
-export const validateAdminToken = (token: string | undefined | null) => {
-  if (!token) return false;
+export const verifyOAuthState = (token: string | undefined | null) => {
+  if (!token) return null;
   try {
-    const secret = getSecret();
-    return decode(token, secret) !== null;
+    const verified = verifySigned(token, getKeyRing());
+    const state = verified?.payload as OAuthState | undefined;
+    if (!state || state.typ !== "oauth" || typeof state.uid !== "string") return null;
+    if (!Number.isFinite(state.exp) || state.exp < Date.now()) return null;
+    return state.uid;
   } catch {
-    return false;
+    return null;
   }
 };
 
 export const sessionCookieName = SESSION_COOKIE_NAME;
 export const sessionMaxAgeSeconds = Math.floor(SESSION_TTL_MS / 1000);
+export const oauthStateMaxAgeSeconds = Math.floor(OAUTH_STATE_TTL_MS / 1000);
+
+// Options for `res.cookies.set`; an empty value with maxAge 0 clears the cookie.
+export const sessionCookie = (value: string, maxAge = sessionMaxAgeSeconds) => ({
+  name: SESSION_COOKIE_NAME,
+  value,
+  httpOnly: true,
+  sameSite: "strict" as const,
+  secure: process.env.NODE_ENV === "production",
+  path: "/",
+  maxAge,
+});
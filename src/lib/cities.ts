@@ -0,0 +1,228 @@
+import { haversineKm } from "@/lib/geo";
+
+export type City = {
+  name: string;
+  country: string; // ISO 3166-1 alpha-2
+  lat: number;
+  lng: number;
+  tz: string; // IANA time zone
+};
+
+// Major population centres, used as snap targets when the owner location is coarsened to a city.
+export const CITIES: City[] = [
+  { name: "Zagreb", country: "HR", lat: 45.815, lng: 15.982, tz: "Europe/Zagreb" },
+  { name: "Split", country: "HR", lat: 43.508, lng: 16.44, tz: "Europe/Zagreb" },
+  { name: "Rijeka", country: "HR", lat: 45.327, lng: 14.442, tz: "Europe/Zagreb" },
+  { name: "Osijek", country: "HR", lat: 45.555, lng: 18.695, tz: "Europe/Zagreb" },
+  { name: "Zadar", country: "HR", lat: 44.119, lng: 15.231, tz: "Europe/Zagreb" },
+  { name: "Dubrovnik", country: "HR", lat: 42.65, lng: 18.094, tz: "Europe/Zagreb" },
+  { name: "Ljubljana", country: "SI", lat: 46.056, lng: 14.506, tz: "Europe/Ljubljana" },
+  { name: "Belgrade", country: "RS", lat: 44.787, lng: 20.457, tz: "Europe/Belgrade" },
+  { name: "Sarajevo", country: "BA", lat: 43.856, lng: 18.413, tz: "Europe/Sarajevo" },
+  { name: "Podgorica", country: "ME", lat: 42.441, lng: 19.263, tz: "Europe/Podgorica" },
+  { name: "Skopje", country: "MK", lat: 41.998, lng: 21.425, tz: "Europe/Skopje" },
+  { name: "Tirana", country: "AL", lat: 41.327, lng: 19.819, tz: "Europe/Tirane" },
+  { name: "Budapest", country: "HU", lat: 47.498, lng: 19.04, tz: "Europe/Budapest" },
+  { name: "Vienna", country: "AT", lat: 48.208, lng: 16.373, tz: "Europe/Vienna" },
+  { name: "Graz", country: "AT", lat: 47.071, lng: 15.439, tz: "Europe/Vienna" },
+  { name: "Salzburg", country: "AT", lat: 47.809, lng: 13.055, tz: "Europe/Vienna" },
+  { name: "Munich", country: "DE", lat: 48.135, lng: 11.582, tz: "Europe/Berlin" },
+  { name: "Berlin", country: "DE", lat: 52.52, lng: 13.405, tz: "Europe/Berlin" },
+  { name: "Hamburg", country: "DE", lat: 53.551, lng: 9.994, tz: "Europe/Berlin" },
+  { name: "Frankfurt", country: "DE", lat: 50.11, lng: 8.682, tz: "Europe/Berlin" },
+  { name: "Cologne", country: "DE", lat: 50.938, lng: 6.96, tz: "Europe/Berlin" },
+  { name: "Stuttgart", country: "DE", lat: 48.776, lng: 9.183, tz: "Europe/Berlin" },
+  { name: "Zurich", country: "CH", lat: 47.377, lng: 8.541, tz: "Europe/Zurich" },
+  { name: "Geneva", country: "CH", lat: 46.204, lng: 6.143, tz: "Europe/Zurich" },
+  { name: "Milan", country: "IT", lat: 45.464, lng: 9.19, tz: "Europe/Rome" },
+  { name: "Venice", country: "IT", lat: 45.441, lng: 12.316, tz: "Europe/Rome" },
+  { name: "Trieste", country: "IT", lat: 45.65, lng: 13.777, tz: "Europe/Rome" },
+  { name: "Rome", country: "IT", lat: 41.903, lng: 12.496, tz: "Europe/Rome" },
+  { name: "Naples", country: "IT", lat: 40.852, lng: 14.268, tz: "Europe/Rome" },
+  { name: "Florence", country: "IT", lat: 43.77, lng: 11.256, tz: "Europe/Rome" },
+  { name: "Paris", country: "FR", lat: 48.857, lng: 2.352, tz: "Europe/Paris" },
+  { name: "Lyon", country: "FR", lat: 45.764, lng: 4.836, tz: "Europe/Paris" },
+  { name: "Marseille", country: "FR", lat: 43.296, lng: 5.37, tz: "Europe/Paris" },
+  { name: "Nice", country: "FR", lat: 43.71, lng: 7.262, tz: "Europe/Paris" },
+  { name: "Barcelona", country: "ES", lat: 41.385, lng: 2.173, tz: "Europe/Madrid" },
+  { name: "Madrid", country: "ES", lat: 40.417, lng: -3.704, tz: "Europe/Madrid" },
+  { name: "Valencia", country: "ES", lat: 39.47, lng: -0.376, tz: "Europe/Madrid" },
+  { name: "Seville", country: "ES", lat: 37.389, lng: -5.984, tz: "Europe/Madrid" },
+  { name: "Lisbon", country: "PT", lat: 38.722, lng: -9.139, tz: "Europe/Lisbon" },
+  { name: "Porto", country: "PT", lat: 41.158, lng: -8.629, tz: "Europe/Lisbon" },
+  { name: "London", country: "GB", lat: 51.507, lng: -0.128, tz: "Europe/London" },
+  { name: "Manchester", country: "GB", lat: 53.481, lng: -2.243, tz: "Europe/London" },
+  { name: "Edinburgh", country: "GB", lat: 55.953, lng: -3.188, tz: "Europe/London" },
+  { name: "Dublin", country: "IE", lat: 53.35, lng: -6.26, tz: "Europe/Dublin" },
+  { name: "Amsterdam", country: "NL", lat: 52.368, lng: 4.904, tz: "Europe/Amsterdam" },
+  { name: "Rotterdam", country: "NL", lat: 51.924, lng: 4.478, tz: "Europe/Amsterdam" },
+  { name: "Brussels", country: "BE", lat: 50.85, lng: 4.352, tz: "Europe/Brussels" },
+  { name: "Luxembourg", country: "LU", lat: 49.612, lng: 6.13, tz: "Europe/Luxembourg" },
+  { name: "Copenhagen", country: "DK", lat: 55.676, lng: 12.568, tz: "Europe/Copenhagen" },
+  { name: "Oslo", country: "NO", lat: 59.914, lng: 10.752, tz: "Europe/Oslo" },
+  { name: "Stockholm", country: "SE", lat: 59.329, lng: 18.069, tz: "Europe/Stockholm" },
+  { name: "Gothenburg", country: "SE", lat: 57.709, lng: 11.975, tz: "Europe/Stockholm" },
+  { name: "Helsinki", country: "FI", lat: 60.17, lng: 24.938, tz: "Europe/Helsinki" },
+  { name: "Reykjavik", country: "IS", lat: 64.147, lng: -21.943, tz: "Atlantic/Reykjavik" },
+  { name: "Tallinn", country: "EE", lat: 59.437, lng: 24.754, tz: "Europe/Tallinn" },
+  { name: "Riga", country: "LV", lat: 56.95, lng: 24.105, tz: "Europe/Riga" },
+  { name: "Vilnius", country: "LT", lat: 54.687, lng: 25.28, tz: "Europe/Vilnius" },
+  { name: "Warsaw", country: "PL", lat: 52.23, lng: 21.012, tz: "Europe/Warsaw" },
+  { name: "Krakow", country: "PL", lat: 50.065, lng: 19.945, tz: "Europe/Warsaw" },
+  { name: "Prague", country: "CZ", lat: 50.075, lng: 14.438, tz: "Europe/Prague" },
+  { name: "Brno", country: "CZ", lat: 49.195, lng: 16.607, tz: "Europe/Prague" },
+  { name: "Bratislava", country: "SK", lat: 48.149, lng: 17.107, tz: "Europe/Bratislava" },
+  { name: "Bucharest", country: "RO", lat: 44.426, lng: 26.103, tz: "Europe/Bucharest" },
+  { name: "Cluj-Napoca", country: "RO", lat: 46.771, lng: 23.624, tz: "Europe/Bucharest" },
+  { name: "Sofia", country: "BG", lat: 42.698, lng: 23.322, tz: "Europe/Sofia" },
+  { name: "Athens", country: "GR", lat: 37.984, lng: 23.728, tz: "Europe/Athens" },
+  { name: "Thessaloniki", country: "GR", lat: 40.64, lng: 22.944, tz: "Europe/Athens" },
+  { name: "Istanbul", country: "TR", lat: 41.008, lng: 28.978, tz: "Europe/Istanbul" },
+  { name: "Ankara", country: "TR", lat: 39.934, lng: 32.86, tz: "Europe/Istanbul" },
+  { name: "Kyiv", country: "UA", lat: 50.45, lng: 30.524, tz: "Europe/Kyiv" },
+  { name: "Chisinau", country: "MD", lat: 47.011, lng: 28.863, tz: "Europe/Chisinau" },
+  { name: "Minsk", country: "BY", lat: 53.905, lng: 27.561, tz: "Europe/Minsk" },
+  { name: "Moscow", country: "RU", lat: 55.756, lng: 37.617, tz: "Europe/Moscow" },
+  { name: "Saint Petersburg", country: "RU", lat: 59.939, lng: 30.316, tz: "Europe/Moscow" },
+  { name: "Novosibirsk", country: "RU", lat: 55.008, lng: 82.935, tz: "Asia/Novosibirsk" },
+  { name: "Vladivostok", country: "RU", lat: 43.116, lng: 131.882, tz: "Asia/Vladivostok" },
+  { name: "Tbilisi", country: "GE", lat: 41.716, lng: 44.783, tz: "Asia/Tbilisi" },
+  { name: "Yerevan", country: "AM", lat: 40.179, lng: 44.499, tz: "Asia/Yerevan" },
+  { name: "Baku", country: "AZ", lat: 40.409, lng: 49.867, tz: "Asia/Baku" },
+  { name: "Tel Aviv", country: "IL", lat: 32.085, lng: 34.782, tz: "Asia/Jerusalem" },
+  { name: "Amman", country: "JO", lat: 31.954, lng: 35.911, tz: "Asia/Amman" },
+  { name: "Beirut", country: "LB", lat: 33.894, lng: 35.502, tz: "Asia/Beirut" },
+  { name: "Cairo", country: "EG", lat: 30.044, lng: 31.236, tz: "Africa/Cairo" },
+  { name: "Riyadh", country: "SA", lat: 24.713, lng: 46.675, tz: "Asia/Riyadh" },
+  { name: "Dubai", country: "AE", lat: 25.205, lng: 55.271, tz: "Asia/Dubai" },
+  { name: "Doha", country: "QA", lat: 25.286, lng: 51.531, tz: "Asia/Qatar" },
+  { name: "Tehran", country: "IR", lat: 35.689, lng: 51.389, tz: "Asia/Tehran" },
+  { name: "Tashkent", country: "UZ", lat: 41.299, lng: 69.24, tz: "Asia/Tashkent" },
+  { name: "Almaty", country: "KZ", lat: 43.222, lng: 76.851, tz: "Asia/Almaty" },
+  { name: "Karachi", country: "PK", lat: 24.861, lng: 67.01, tz: "Asia/Karachi" },
+  { name: "Delhi", country: "IN", lat: 28.614, lng: 77.209, tz: "Asia/Kolkata" },
+  { name: "Mumbai", country: "IN", lat: 19.076, lng: 72.878, tz: "Asia/Kolkata" },
+  { name: "Bangalore", country: "IN", lat: 12.972, lng: 77.595, tz: "Asia/Kolkata" },
+  { name: "Kolkata", country: "IN", lat: 22.573, lng: 88.364, tz: "Asia/Kolkata" },
+  { name: "Kathmandu", country: "NP", lat: 27.717, lng: 85.324, tz: "Asia/Kathmandu" },
+  { name: "Colombo", country: "LK", lat: 6.927, lng: 79.861, tz: "Asia/Colombo" },
+  { name: "Dhaka", country: "BD", lat: 23.81, lng: 90.413, tz: "Asia/Dhaka" },
+  { name: "Bangkok", country: "TH", lat: 13.756, lng: 100.502, tz: "Asia/Bangkok" },
+  { name: "Hanoi", country: "VN", lat: 21.028, lng: 105.834, tz: "Asia/Ho_Chi_Minh" },
+  { name: "Ho Chi Minh City", country: "VN", lat: 10.823, lng: 106.63, tz: "Asia/Ho_Chi_Minh" },
+  { name: "Kuala Lumpur", country: "MY", lat: 3.139, lng: 101.687, tz: "Asia/Kuala_Lumpur" },
+  { name: "Singapore", country: "SG", lat: 1.352, lng: 103.82, tz: "Asia/Singapore" },
+  { name: "Jakarta", country: "ID", lat: -6.208, lng: 106.846, tz: "Asia/Jakarta" },
+  { name: "Bali", country: "ID", lat: -8.65, lng: 115.216, tz: "Asia/Makassar" },
+  { name: "Manila", country: "PH", lat: 14.6, lng: 120.984, tz: "Asia/Manila" },
+  { name: "Hong Kong", country: "HK", lat: 22.32, lng: 114.169, tz: "Asia/Hong_Kong" },
+  { name: "Taipei", country: "TW", lat: 25.033, lng: 121.565, tz: "Asia/Taipei" },
+  { name: "Shanghai", country: "CN", lat: 31.23, lng: 121.474, tz: "Asia/Shanghai" },
+  { name: "Beijing", country: "CN", lat: 39.904, lng: 116.407, tz: "Asia/Shanghai" },
+  { name: "Shenzhen", country: "CN", lat: 22.543, lng: 114.058, tz: "Asia/Shanghai" },
+  { name: "Chengdu", country: "CN", lat: 30.573, lng: 104.066, tz: "Asia/Shanghai" },
+  { name: "Seoul", country: "KR", lat: 37.567, lng: 126.978, tz: "Asia/Seoul" },
+  { name: "Tokyo", country: "JP", lat: 35.676, lng: 139.65, tz: "Asia/Tokyo" },
+  { name: "Osaka", country: "JP", lat: 34.694, lng: 135.502, tz: "Asia/Tokyo" },
+  { name: "Sapporo", country: "JP", lat: 43.062, lng: 141.354, tz: "Asia/Tokyo" },
+  { name: "Ulaanbaatar", country: "MN", lat: 47.886, lng: 106.906, tz: "Asia/Ulaanbaatar" },
+  { name: "Perth", country: "AU", lat: -31.95, lng: 115.86, tz: "Australia/Perth" },
+  { name: "Adelaide", country: "AU", lat: -34.929, lng: 138.601, tz: "Australia/Adelaide" },
+  { name: "Melbourne", country: "AU", lat: -37.814, lng: 144.963, tz: "Australia/Melbourne" },
+  { name: "Sydney", country: "AU", lat: -33.869, lng: 151.209, tz: "Australia/Sydney" },
+  { name: "Brisbane", country: "AU", lat: -27.47, lng: 153.026, tz: "Australia/Brisbane" },
+  { name: "Darwin", country: "AU", lat: -12.463, lng: 130.846, tz: "Australia/Darwin" },
+  { name: "Auckland", country: "NZ", lat: -36.848, lng: 174.763, tz: "Pacific/Auckland" },
+  { name: "Wellington", country: "NZ", lat: -41.286, lng: 174.776, tz: "Pacific/Auckland" },
+  { name: "Suva", country: "FJ", lat: -18.124, lng: 178.45, tz: "Pacific/Fiji" },
+  { name: "Honolulu", country: "US", lat: 21.307, lng: -157.858, tz: "Pacific/Honolulu" },
+  { name: "Anchorage", country: "US", lat: 61.218, lng: -149.9, tz: "America/Anchorage" },
+  { name: "Vancouver", country: "CA", lat: 49.283, lng: -123.121, tz: "America/Vancouver" },
+  { name: "Seattle", country: "US", lat: 47.606, lng: -122.332, tz: "America/Los_Angeles" },
+  { name: "Portland", country: "US", lat: 45.515, lng: -122.679, tz: "America/Los_Angeles" },
+  { name: "San Francisco", country: "US", lat: 37.775, lng: -122.419, tz: "America/Los_Angeles" },
+  { name: "Los Angeles", country: "US", lat: 34.052, lng: -118.244, tz: "America/Los_Angeles" },
+  { name: "San Diego", country: "US", lat: 32.716, lng: -117.161, tz: "America/Los_Angeles" },
+  { name: "Las Vegas", country: "US", lat: 36.17, lng: -115.14, tz: "America/Los_Angeles" },
+  { name: "Phoenix", country: "US", lat: 33.448, lng: -112.074, tz: "America/Phoenix" },
+  { name: "Salt Lake City", country: "US", lat: 40.761, lng: -111.891, tz: "America/Denver" },
+  { name: "Denver", country: "US", lat: 39.739, lng: -104.99, tz: "America/Denver" },
+  { name: "Calgary", country: "CA", lat: 51.045, lng: -114.072, tz: "America/Edmonton" },
+  { name: "Dallas", country: "US", lat: 32.777, lng: -96.797, tz: "America/Chicago" },
+  { name: "Austin", country: "US", lat: 30.267, lng: -97.743, tz: "America/Chicago" },
+  { name: "Houston", country: "US", lat: 29.76, lng: -95.37, tz: "America/Chicago" },
+  { name: "Minneapolis", country: "US", lat: 44.978, lng: -93.265, tz: "America/Chicago" },
+  { name: "Chicago", country: "US", lat: 41.878, lng: -87.63, tz: "America/Chicago" },
+  { name: "New Orleans", country: "US", lat: 29.951, lng: -90.072, tz: "America/Chicago" },
+  { name: "Atlanta", country: "US", lat: 33.749, lng: -84.388, tz: "America/New_York" },
+  { name: "Miami", country: "US", lat: 25.762, lng: -80.192, tz: "America/New_York" },
+  { name: "Detroit", country: "US", lat: 42.331, lng: -83.046, tz: "America/Detroit" },
+  { name: "Toronto", country: "CA", lat: 43.653, lng: -79.383, tz: "America/Toronto" },
+  { name: "Montreal", country: "CA", lat: 45.502, lng: -73.567, tz: "America/Toronto" },
+  { name: "Washington", country: "US", lat: 38.907, lng: -77.037, tz: "America/New_York" },
+  { name: "New York", country: "US", lat: 40.713, lng: -74.006, tz: "America/New_York" },
+  { name: "Boston", country: "US", lat: 42.36, lng: -71.059, tz: "America/New_York" },
+  { name: "Halifax", country: "CA", lat: 44.649, lng: -63.575, tz: "America/Halifax" },
+  { name: "Mexico City", country: "MX", lat: 19.433, lng: -99.133, tz: "America/Mexico_City" },
+  { name: "Guadalajara", country: "MX", lat: 20.659, lng: -103.349, tz: "America/Mexico_City" },
+  { name: "Havana", country: "CU", lat: 23.113, lng: -82.366, tz: "America/Havana" },
+  { name: "Guatemala City", country: "GT", lat: 14.634, lng: -90.507, tz: "America/Guatemala" },
+  { name: "San Jose", country: "CR", lat: 9.928, lng: -84.091, tz: "America/Costa_Rica" },
+  { name: "Panama City", country: "PA", lat: 8.983, lng: -79.52, tz: "America/Panama" },
+  { name: "Bogota", country: "CO", lat: 4.711, lng: -74.072, tz: "America/Bogota" },
+  { name: "Medellin", country: "CO", lat: 6.244, lng: -75.581, tz: "America/Bogota" },
+  { name: "Caracas", country: "VE", lat: 10.48, lng: -66.904, tz: "America/Caracas" },
+  { name: "Quito", country: "EC", lat: -0.181, lng: -78.468, tz: "America/Guayaquil" },
+  { name: "Lima", country: "PE", lat: -12.046, lng: -77.043, tz: "America/Lima" },
+  { name: "La Paz", country: "BO", lat: -16.49, lng: -68.119, tz: "America/La_Paz" },
+  { name: "Santiago", country: "CL", lat: -33.449, lng: -70.669, tz: "America/Santiago" },
+  { name: "Buenos Aires", country: "AR", lat: -34.604, lng: -58.382, tz: "America/Argentina/Buenos_Aires" },
+  { name: "Montevideo", country: "UY", lat: -34.901, lng: -56.164, tz: "America/Montevideo" },
+  { name: "Sao Paulo", country: "BR", lat: -23.551, lng: -46.633, tz: "America/Sao_Paulo" },
+  { name: "Rio de Janeiro", country: "BR", lat: -22.907, lng: -43.173, tz: "America/Sao_Paulo" },
+  { name: "Brasilia", country: "BR", lat: -15.794, lng: -47.882, tz: "America/Sao_Paulo" },
+  { name: "Recife", country: "BR", lat: -8.048, lng: -34.877, tz: "America/Recife" },
+  { name: "Manaus", country: "BR", lat: -3.119, lng: -60.022, tz: "America/Manaus" },
+  { name: "Casablanca", country: "MA", lat: 33.573, lng: -7.59, tz: "Africa/Casablanca" },
+  { name: "Marrakesh", country: "MA", lat: 31.629, lng: -7.981, tz: "Africa/Casablanca" },
+  { name: "Algiers", country: "DZ", lat: 36.754, lng: 3.059, tz: "Africa/Algiers" },
+  { name: "Tunis", country: "TN", lat: 36.806, lng: 10.181, tz: "Africa/Tunis" },
+  { name: "Dakar", country: "SN", lat: 14.716, lng: -17.467, tz: "Africa/Dakar" },
+  { name: "Accra", country: "GH", lat: 5.604, lng: -0.187, tz: "Africa/Accra" },
+  { name: "Lagos", country: "NG", lat: 6.524, lng: 3.379, tz: "Africa/Lagos" },
+  { name: "Addis Ababa", country: "ET", lat: 8.98, lng: 38.757, tz: "Africa/Addis_Ababa" },
+  { name: "Nairobi", country: "KE", lat: -1.292, lng: 36.822, tz: "Africa/Nairobi" },
+  { name: "Kigali", country: "RW", lat: -1.944, lng: 30.062, tz: "Africa/Kigali" },
+  { name: "Dar es Salaam", country: "TZ", lat: -6.792, lng: 39.208, tz: "Africa/Dar_es_Salaam" },
+  { name: "Kinshasa", country: "CD", lat: -4.441, lng: 15.266, tz: "Africa/Kinshasa" },
+  { name: "Luanda", country: "AO", lat: -8.839, lng: 13.289, tz: "Africa/Luanda" },
+  { name: "Johannesburg", country: "ZA", lat: -26.204, lng: 28.047, tz: "Africa/Johannesburg" },
+  { name: "Cape Town", country: "ZA", lat: -33.925, lng: 18.424, tz: "Africa/Johannesburg" },
+  { name: "Antananarivo", country: "MG", lat: -18.88, lng: 47.508, tz: "Indian/Antananarivo" },
+];
+
+export const nearestCity = (point: { lat: number; lng: number }) => {
+  let best = CITIES[0];
+  let bestDistance = Infinity;
+  for (const city of CITIES) {
+    const d = haversineKm(city, point);
+    if (d < bestDistance) {
+      best = city;
+      bestDistance = d;
+    }
+  }
+  return { city: best, distanceKm: bestDistance };
+};
+
+// Beyond this the nearest city says little about the local clock (open ocean, poles, sparse regions).
+const TIME_ZONE_RADIUS_KM = 1500;
+
+// Best-effort IANA time zone for a point, resolved offline: the nearest listed city's zone, or the
+// nautical zone for the longitude when no city is close. Etc/GMT signs are inverted by convention.
+export const timeZoneAt = (point: { lat: number; lng: number }) => {
+  const { city, distanceKm } = nearestCity(point);
+  if (distanceKm <= TIME_ZONE_RADIUS_KM) return city.tz;
+  const hours = Math.max(-12, Math.min(12, Math.round(point.lng / 15)));
+  if (hours === 0) return "Etc/UTC";
+  return hours > 0 ? `Etc/GMT-${hours}` : `Etc/GMT+${-hours}`;
+};
@@ -0,0 +1,35 @@
+import { describe, expect, it, vi } from "vitest";
+import { clientIpFromHeaders } from "@/lib/clientIp";
+
+const headers = (values: Record<string, string>) => new Headers(values);
+
+describe("clientIpFromHeaders", () => {
+  it("takes the entry appended by the single trusted proxy by default", () => {
+    expect(clientIpFromHeaders(headers({ "x-forwarded-for": "6.6.6.6, 1.2.3.4" }))).toBe("1.2.3.4");
+  });
+
+  it("ignores addresses the client put in front of the trusted hops", () => {
+    vi.stubEnv("TRUSTED_PROXY_HOPS", "2");
+    expect(clientIpFromHeaders(headers({ "x-forwarded-for": "6.6.6.6, 1.2.3.4, 10.0.0.1" }))).toBe("1.2.3.4");
+  });
+
+  it("uses the first entry when the header is shorter than the hop count", () => {
+    vi.stubEnv("TRUSTED_PROXY_HOPS", "3");
+    expect(clientIpFromHeaders(headers({ "x-forwarded-for": "1.2.3.4" }))).toBe("1.2.3.4");
+  });
+
+  it("falls back to x-real-ip", () => {
+    expect(clientIpFromHeaders(headers({ "x-real-ip": " 1.2.3.4 " }))).toBe("1.2.3.4");
+  });
+
+  it("ignores x-forwarded-for entirely with no trusted proxies", () => {
+    vi.stubEnv("TRUSTED_PROXY_HOPS", "0");
+    expect(clientIpFromHeaders(headers({ "x-forwarded-for": "6.6.6.6" }))).toBe("");
+    expect(clientIpFromHeaders(headers({ "x-forwarded-for": "6.6.6.6", "x-real-ip": "1.2.3.4" }))).toBe("1.2.3.4");
+  });
+
+  it("keeps the default for a nonsense hop count", () => {
+    vi.stubEnv("TRUSTED_PROXY_HOPS", "-1");
+    expect(clientIpFromHeaders(headers({ "x-forwarded-for": "6.6.6.6, 1.2.3.4" }))).toBe("1.2.3.4");
+  });
+});
@@ -0,0 +1,23 @@
+type HeaderReader = { get: (name: string) => string | null };
+
+const DEFAULT_TRUSTED_PROXY_HOPS = 1;
+
+// How many proxies in front of the app append to x-forwarded-for. Each appends the address it got the
+// request from, so the client is the entry that many places from the end; anything before it was
+// sent by the client and can say whatever it likes.
+const trustedProxyHops = () => {
+  const configured = Number(process.env.TRUSTED_PROXY_HOPS);
+  return Number.isInteger(configured) && configured >= 0 ? configured : DEFAULT_TRUSTED_PROXY_HOPS;
+};
+
+// The client address as seen by the nearest trusted proxy; empty string when unknown (local dev, or
+// TRUSTED_PROXY_HOPS=0 with no proxy setting x-real-ip).
+export const clientIpFromHeaders = (hdrs: HeaderReader) => {
+  const hops = trustedProxyHops();
+  const forwardedFor = (hdrs.get("x-forwarded-for") ?? "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  if (hops > 0 && forwardedFor.length > 0) return forwardedFor[Math.max(0, forwardedFor.length - hops)];
+  return hdrs.get("x-real-ip")?.trim() || "";
+};
@@ -14,3 +14,26 @@ export function haversineKm(a: { lat: number; lng: number }, b: { lat: number; l
 
   return 2 * R * Math.asin(Math.sqrt(s));
 }
+
+// Point reached by travelling `distanceKm` from `origin` along the initial `bearingRad` (clockwise from north).
+export function destinationPoint(origin: { lat: number; lng: number }, bearingRad: number, distanceKm: number) {
+  const R = 6371; // km
+  const toRad = (d: number) => (d * Math.PI) / 180;
+  const toDeg = (r: number) => (r * 180) / Math.PI;
+
+  const delta = distanceKm / R;
+  const lat1 = toRad(origin.lat);
+  const lng1 = toRad(origin.lng);
+
+  const lat2 = Math.asin(
+    Math.sin(lat1) * Math.cos(delta) + Math.cos(lat1) * Math.sin(delta) * Math.cos(bearingRad)
+  );
+  const lng2 =
+    lng1 +
+    Math.atan2(
+      Math.sin(bearingRad) * Math.sin(delta) * Math.cos(lat1),
+      Math.cos(delta) - Math.sin(lat1) * Math.sin(lat2)
+    );
+
+  return { lat: toDeg(lat2), lng: ((toDeg(lng2) + 540) % 360) - 180 };
+}
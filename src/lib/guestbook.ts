@@ -0,0 +1,147 @@
+import crypto from "crypto";
+import { coarsenPoint } from "@/lib/locationPrivacy";
+import { readJson, updateJson } from "@/lib/store";
+
+export type NoteStatus = "pending" | "approved" | "hidden";
+
+export type GuestbookNote = {
+  id: string;
+  name?: string;
+  message: string;
+  lat: number; // snapped to a grid cell, never the looked-up position itself
+  lng: number;
+  place?: string; // "Region, Country" from the lookup, for the tooltip
+  status: NoteStatus;
+  createdAt: string;
+  moderatedAt?: string;
+  moderatedBy?: string;
+};
+
+// What visitors get back: approved notes without moderation details.
+export type PublicNote = Pick<GuestbookNote, "id" | "name" | "message" | "lat" | "lng" | "place" | "createdAt">;
+
+export type GuestbookInput = { name?: string; message: string };
+
+type Guestbook = { notes: GuestbookNote[] };
+
+const STORE_KEY = "guestbook";
+const MIN_MESSAGE_LENGTH = 2;
+export const MAX_MESSAGE_LENGTH = 280;
+export const MAX_NAME_LENGTH = 40;
+const MAX_PENDING = 200; // new submissions are refused while this many wait for moderation
+const MAX_NOTES = 2_000; // pending and approved; hidden notes make way for new ones, oldest first
+const MAX_PUBLIC_NOTES = 100;
+const GRID_DEGREES = 1; // same ~110 km cells as the live visitor dots
+
+const EMPTY: Guestbook = { notes: [] };
+
+// Drops control characters and collapses whitespace, so a note can't smuggle in layout or terminal escapes.
+const clean = (value: string) =>
+  value
+    .replace(/[\u0000-\u001f\u007f-\u009f\u200b-\u200f\u202a-\u202e\u2066-\u2069]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+
+export const parseGuestbookInput = (
+  input: unknown
+): { ok: true; value: GuestbookInput } | { ok: false; error: string } => {
+  if (!input || typeof input !== "object") return { ok: false, error: "Expected an object body" };
+  const { name, message } = input as { name?: unknown; message?: unknown };
+
+  if (typeof message !== "string") return { ok: false, error: "message is required" };
+  const text = clean(message);
+  if ([...text].length < MIN_MESSAGE_LENGTH || [...text].length > MAX_MESSAGE_LENGTH) {
+    return { ok: false, error: `message must be ${MIN_MESSAGE_LENGTH}-${MAX_MESSAGE_LENGTH} characters` };
+  }
+
+  if (name !== undefined && typeof name !== "string") return { ok: false, error: "name must be a string" };
+  const signature = name ? clean(name) : "";
+  if ([...signature].length > MAX_NAME_LENGTH) {
+    return { ok: false, error: `name must be at most ${MAX_NAME_LENGTH} characters` };
+  }
+
+  return { ok: true, value: { message: text, name: signature || undefined } };
+};
+
+// The form renders a "website" field that people never see; anything in it came from a bot.
+export const isHoneypotFilled = (input: unknown) => {
+  const { website } = (input ?? {}) as { website?: unknown };
+  return typeof website === "string" && website.trim() !== "";
+};
+
+export const addGuestbookNote = (
+  input: GuestbookInput,
+  location: { lat: number; lng: number; region?: string; country?: string }
+) =>
+  updateJson<Guestbook>(STORE_KEY, EMPTY, (current) => {
+    const pending = current.notes.filter((note) => note.status === "pending").length;
+    const visible = current.notes.filter((note) => note.status !== "hidden").length;
+    if (pending >= MAX_PENDING || visible >= MAX_NOTES) {
+      throw new Error("The guestbook isn't taking new notes right now");
+    }
+
+    // Keeps the store bounded without letting hidden notes block new ones.
+    const overflow = current.notes.length + 1 - MAX_NOTES;
+    const pruned = new Set(
+      current.notes
+        .filter((note) => note.status === "hidden")
+        .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+        .slice(0, Math.max(0, overflow))
+        .map((note) => note.id)
+    );
+
+    const point = coarsenPoint(location, { mode: "grid", gridDegrees: GRID_DEGREES, jitterKm: 0 });
+    const note: GuestbookNote = {
+      id: crypto.randomBytes(8).toString("hex"),
+      ...input,
+      lat: point.lat,
+      lng: point.lng,
+      place: [location.region, location.country].filter(Boolean).join(", ") || undefined,
+      status: "pending",
+      createdAt: new Date().toISOString(),
+    };
+    return { notes: [...current.notes.filter((existing) => !pruned.has(existing.id)), note] };
+  });
+
+// Newest first, pending before everything else so the queue is what the moderator sees first.
+export const listGuestbookNotes = async () => {
+  const { notes } = await readJson<Guestbook>(STORE_KEY, EMPTY);
+  return [...notes].sort(
+    (a, b) => Number(b.status === "pending") - Number(a.status === "pending") || b.createdAt.localeCompare(a.createdAt)
+  );
+};
+
+export const getApprovedNotes = async (): Promise<PublicNote[]> => {
+  const { notes } = await readJson<Guestbook>(STORE_KEY, EMPTY);
+  return notes
+    .filter((note) => note.status === "approved")
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    .slice(0, MAX_PUBLIC_NOTES)
+    .map(({ id, name, message, lat, lng, place, createdAt }) => ({ id, name, message, lat, lng, place, createdAt }));
+};
+
+// Resolves to the updated note, or null when there's no note with that id.
+export const moderateGuestbookNote = async (id: string, status: NoteStatus, moderatedBy: string) => {
+  let updated: GuestbookNote | null = null;
+  await updateJson<Guestbook>(STORE_KEY, EMPTY, (current) => ({
+    notes: current.notes.map((note) => {
+      if (note.id !== id) return note;
+      updated = { ...note, status, moderatedAt: new Date().toISOString(), moderatedBy };
+      return updated;
+    }),
+  }));
+  return updated as GuestbookNote | null;
+};
+
+export const deleteGuestbookNote = async (id: string) => {
+  let removed = false;
+  await updateJson<Guestbook>(STORE_KEY, EMPTY, (current) => {
+    const notes = current.notes.filter((note) => note.id !== id);
+    removed = notes.length !== current.notes.length;
+    return { notes };
+  });
+  return removed;
+};
+
+export const parseNoteStatus = (value: unknown): NoteStatus | null =>
+  value === "pending" || value === "approved" || value === "hidden" ? value : null;
@@ -0,0 +1,3 @@
+// For text placed into HTML built as a string: element content and quoted attribute values.
+export const escapeHtml = (text: string) =>
+  text.replace(/[&<>"']/g, (c) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" })[c] ?? c);
@@ -0,0 +1,103 @@
+import { createLruCache } from "@/lib/lruCache";
+import { createIpapiProvider } from "./ipapi";
+import { createMmdbProvider } from "./mmdb";
+import type { IpApiPayload, IpGeoProvider, IpLocation } from "./types";
+
+export type { IpApiPayload, IpGeoProvider, IpLocation } from "./types";
+
+const CACHE_MAX_ENTRIES = 5_000;
+const CACHE_TTL_MS = 6 * 60 * 60 * 1000; // addresses rarely move; keep hits for a few hours
+const NEGATIVE_CACHE_TTL_MS = 2 * 60 * 1000; // retry failed lookups sooner
+
+type CachedLookup = { ok: true; location: IpLocation } | { ok: false; message: string };
+
+const lookupCache = createLruCache<CachedLookup>({ maxEntries: CACHE_MAX_ENTRIES, ttlMs: CACHE_TTL_MS });
+
+let cachedChain: { signature: string; providers: IpGeoProvider[] } | null = null;
+
+const buildProvider = (name: string): IpGeoProvider | null => {
+  switch (name) {
+    case "mmdb": {
+      const filePath = process.env.IP_GEO_MMDB_PATH;
+      if (!filePath) {
+        console.warn("IP_GEO_PROVIDERS lists mmdb but IP_GEO_MMDB_PATH is not set; skipping it.");
+        return null;
+      }
+      return createMmdbProvider(filePath);
+    }
+    case "ipapi":
+    case "ipapi.co":
+      return createIpapiProvider();
+    default:
+      console.warn(`Unknown IP geolocation provider "${name}"; skipping it.`);
+      return null;
+  }
+};
+
+// IP_GEO_PROVIDERS is an ordered, comma-separated fallback chain, e.g. "mmdb,ipapi".
+const getProviderChain = () => {
+  const configured = process.env.IP_GEO_PROVIDERS || (process.env.IP_GEO_MMDB_PATH ? "mmdb,ipapi" : "ipapi");
+  const signature = `${configured}|${process.env.IP_GEO_MMDB_PATH ?? ""}`;
+  if (cachedChain?.signature === signature) return cachedChain.providers;
+
+  const providers = configured
+    .split(",")
+    .map((name) => name.trim().toLowerCase())
+    .filter(Boolean)
+    .map(buildProvider)
+    .filter((provider): provider is IpGeoProvider => provider !== null);
+
+  cachedChain = { signature, providers };
+  return providers;
+};
+
+const normalize = (body: IpApiPayload, ip: string, source: string): IpLocation | null => {
+  if (typeof body.latitude !== "number" || typeof body.longitude !== "number") return null;
+  return {
+    lat: body.latitude,
+    lng: body.longitude,
+    city: body.city || undefined,
+    region: body.region || body.region_code || undefined,
+    country: body.country_name || body.country || undefined,
+    ip: body.ip || ip || undefined,
+    source,
+  };
+};
+
+// Walk the chain until a provider answers with coordinates; throws once every provider has been tried.
+const lookupUncached = async (ip: string): Promise<IpLocation> => {
+  const failures: string[] = [];
+
+  for (const provider of getProviderChain()) {
+    try {
+      const body = await provider.lookup(ip);
+      const location = body ? normalize(body, ip, provider.name) : null;
+      if (location) return location;
+      failures.push(`${provider.name}: no coordinates`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      failures.push(`${provider.name}: ${message}`);
+    }
+  }
+
+  throw new Error(failures.length ? failures.join("; ") : "No IP geolocation providers configured");
+};
+
+// Cached by address, including failures, so re-polls don't hit upstream providers again.
+export const lookupIpLocation = async (ip: string): Promise<IpLocation> => {
+  const cached = lookupCache.get(ip);
+  if (cached) {
+    if (cached.ok) return cached.location;
+    throw new Error(cached.message);
+  }
+
+  try {
+    const location = await lookupUncached(ip);
+    lookupCache.set(ip, { ok: true, location });
+    return location;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    lookupCache.set(ip, { ok: false, message }, NEGATIVE_CACHE_TTL_MS);
+    throw error;
+  }
+};
@@ -0,0 +1,23 @@
+import type { IpApiPayload, IpGeoProvider } from "./types";
+
+const API_BASE = "https://ipapi.co";
+
+export const createIpapiProvider = (): IpGeoProvider => ({
+  name: "ipapi.co",
+  lookup: async (ip) => {
+    const apiUrl = ip ? `${API_BASE}/${ip}/json/` : `${API_BASE}/json/`;
+    const res = await fetch(apiUrl, {
+      cache: "no-store",
+      headers: { "User-Agent": "juric-ip-proxy/1.0" },
+    });
+
+    if (!res.ok) {
+      throw new Error(`ipapi.co lookup failed with ${res.status}`);
+    }
+
+    const body = (await res.json()) as IpApiPayload & { error?: boolean; reserved?: boolean };
+    // Private and reserved ranges come back as 200 with an error flag.
+    if (body.error || body.reserved) return null;
+    return body;
+  },
+});
@@ -0,0 +1,53 @@
+import { promises as fs } from "fs";
+import { Reader } from "mmdb-lib";
+import type { CityResponse } from "mmdb-lib";
+import type { IpApiPayload, IpGeoProvider } from "./types";
+
+const LOCALE = "en";
+
+// Works with MaxMind GeoLite2/GeoIP2 City and DB-IP City Lite databases, which share the record layout.
+export const createMmdbProvider = (filePath: string): IpGeoProvider => {
+  let readerPromise: Promise<Reader<CityResponse>> | null = null;
+
+  const getReader = () => {
+    if (!readerPromise) {
+      readerPromise = fs.readFile(filePath).then((db) => new Reader<CityResponse>(db));
+      // Let a later request retry if the file was missing or unreadable.
+      readerPromise.catch(() => {
+        readerPromise = null;
+      });
+    }
+    return readerPromise;
+  };
+
+  return {
+    name: "mmdb",
+    lookup: async (ip) => {
+      // Without a client address (local dev) there is nothing to look up offline.
+      if (!ip) return null;
+
+      const reader = await getReader();
+      let record: CityResponse | null;
+      try {
+        record = reader.get(ip);
+      } catch {
+        // mmdb-lib throws on malformed addresses.
+        return null;
+      }
+      if (!record?.location) return null;
+
+      const subdivision = record.subdivisions?.[0];
+      const payload: IpApiPayload = {
+        latitude: record.location.latitude,
+        longitude: record.location.longitude,
+        city: record.city?.names?.[LOCALE],
+        region: subdivision?.names?.[LOCALE],
+        region_code: subdivision?.iso_code,
+        country: record.country?.iso_code,
+        country_name: record.country?.names?.[LOCALE],
+        ip,
+      };
+      return payload;
+    },
+  };
+};
@@ -0,0 +1,27 @@
+// Shape every provider normalizes to. Field names follow ipapi.co, the original (and default) provider.
+export type IpApiPayload = {
+  latitude?: number;
+  longitude?: number;
+  city?: string;
+  region?: string;
+  region_code?: string;
+  country?: string;
+  country_name?: string;
+  ip?: string;
+};
+
+export type IpGeoProvider = {
+  name: string;
+  // Resolve null when the provider has no answer for this address; throw on provider failure.
+  lookup: (ip: string) => Promise<IpApiPayload | null>;
+};
+
+export type IpLocation = {
+  lat: number;
+  lng: number;
+  city?: string;
+  region?: string;
+  country?: string;
+  ip?: string;
+  source: string;
+};
@@ -0,0 +1,190 @@
+import crypto from "crypto";
+import type { PlaybackPayload, PlaybackRefs } from "@/lib/nowPlaying";
+import { findBlockRule, getNowPlayingPrivacy } from "@/lib/nowPlaying/privacy";
+import { readJson, updateJson } from "@/lib/store";
+
+export type StatsRange = "day" | "week" | "month";
+
+type PlayRecord = {
+  id: string;
+  trackId?: string;
+  track: string;
+  artists: string[];
+  album?: string;
+  albumImageUrl?: string;
+  startedAt: number; // ms since epoch, first time we saw it playing
+  listenedMs: number;
+  refs?: PlaybackRefs; // so block rules added later match by URI too; never part of the stats response
+};
+
+type CurrentPlay = PlayRecord & {
+  key: string;
+  playing: boolean;
+  lastObservedAt: number;
+  recorded: boolean; // crossed MIN_LISTEN_MS and was written to the store
+};
+
+const STORE_KEY = "spotify-plays";
+const MIN_LISTEN_MS = 30_000; // skips and previews below this don't count as plays
+const MAX_GAP_MS = 30_000; // longer gaps between observations aren't counted as listening
+const NEW_PLAY_GAP_MS = 30 * 60 * 1000; // same track seen again after this long is a new play
+const RETENTION_MS = 90 * 24 * 60 * 60 * 1000;
+const TOP_LIMIT = 5;
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const RANGES: Record<StatsRange, { spanMs: number; bucketMs: number }> = {
+  day: { spanMs: DAY_MS, bucketMs: HOUR_MS },
+  week: { spanMs: 7 * DAY_MS, bucketMs: DAY_MS },
+  month: { spanMs: 30 * DAY_MS, bucketMs: DAY_MS },
+};
+
+let current: CurrentPlay | null = null;
+
+const keyOf = (play: { trackId?: string; track?: string; artists?: string | string[] }) =>
+  play.trackId ?? `${play.track ?? ""}|${[play.artists ?? []].flat().join(", ")}`;
+
+const toRecord = ({ id, trackId, track, artists, album, albumImageUrl, startedAt, listenedMs, refs }: CurrentPlay) => ({
+  id,
+  trackId,
+  track,
+  artists,
+  album,
+  albumImageUrl,
+  startedAt,
+  listenedMs,
+  refs,
+});
+
+const savePlay = (play: CurrentPlay) =>
+  updateJson<PlayRecord[]>(STORE_KEY, [], (plays) => {
+    const cutoff = Date.now() - RETENTION_MS;
+    const kept = plays.filter((p) => p.startedAt >= cutoff && p.id !== play.id);
+    return [...kept, toRecord(play)];
+  });
+
+// Fed every payload fetchNowPlaying produces. Listening time is the wall-clock time between
+// consecutive "playing" observations of the same track, so it only accrues while something polls.
+export const observePlayback = async (payload: PlaybackPayload) => {
+  const now = Date.parse(payload.lastUpdated) || Date.now();
+  const previous = current;
+  // Stats are about music; episodes and ads end the current play like a stop would.
+  const isTrack = Boolean(payload.track) && (payload.currentlyPlayingType ?? "track") === "track";
+  const key = isTrack ? keyOf(payload) : null;
+  const sameTrack = previous !== null && previous.key === key && now - previous.lastObservedAt < NEW_PLAY_GAP_MS;
+
+  const pending: Promise<unknown>[] = [];
+  // Persist the final listened time of a play we're leaving.
+  if (previous && !sameTrack && previous.recorded) pending.push(savePlay(previous));
+
+  if (!payload.track || key === null) {
+    current = null;
+  } else if (sameTrack && previous) {
+    if (payload.isPlaying && previous.playing) {
+      previous.listenedMs += Math.min(Math.max(0, now - previous.lastObservedAt), MAX_GAP_MS);
+    }
+    previous.playing = payload.isPlaying;
+    previous.lastObservedAt = now;
+  } else {
+    current = {
+      id: crypto.randomBytes(8).toString("hex"),
+      key,
+      trackId: payload.trackId,
+      track: payload.track,
+      artists: payload.refs?.artistNames ?? (payload.artists ? [payload.artists] : []),
+      album: payload.album,
+      albumImageUrl: payload.albumImageUrl,
+      startedAt: now,
+      listenedMs: 0,
+      refs: payload.refs,
+      playing: payload.isPlaying,
+      lastObservedAt: now,
+      recorded: false,
+    };
+  }
+
+  if (current && !current.recorded && current.listenedMs >= MIN_LISTEN_MS) {
+    current.recorded = true;
+    pending.push(savePlay(current));
+  }
+
+  await Promise.all(pending);
+};
+
+export const parseStatsRange = (value: string | null): StatsRange | null =>
+  value === "day" || value === "week" || value === "month" ? value : null;
+
+export const getListeningStats = async (range: StatsRange) => {
+  const { spanMs, bucketMs } = RANGES[range];
+  const to = Date.now();
+  const from = to - spanMs;
+  const [stored, privacy] = await Promise.all([readJson<PlayRecord[]>(STORE_KEY, []), getNowPlayingPrivacy()]);
+  // Plays recorded before a block rule was added drop out of the stats too, whichever kind of rule it is.
+  // Plays stored without refs only have their track id to match a URI rule against.
+  const plays = stored.filter(
+    (p) =>
+      p.startedAt >= from &&
+      p.startedAt <= to &&
+      !findBlockRule(privacy.rules, {
+        ...p.refs,
+        trackUri: p.refs?.trackUri ?? (p.trackId ? `spotify:track:${p.trackId}` : undefined),
+        track: p.track,
+        album: p.album,
+        artists: p.artists,
+      })
+  );
+
+  const tracks = new Map<
+    string,
+    { track: string; artists: string[]; album?: string; albumImageUrl?: string; plays: number; listenedMs: number }
+  >();
+  const artists = new Map<string, { name: string; plays: number; listenedMs: number }>();
+  const buckets = Array.from({ length: Math.ceil(spanMs / bucketMs) }, (_, i) => ({
+    start: new Date(from + i * bucketMs).toISOString(),
+    listenedMs: 0,
+  }));
+  let listenedMs = 0;
+
+  for (const play of plays) {
+    listenedMs += play.listenedMs;
+
+    const key = keyOf(play);
+    const trackEntry = tracks.get(key) ?? {
+      track: play.track,
+      artists: play.artists,
+      album: play.album,
+      albumImageUrl: play.albumImageUrl,
+      plays: 0,
+      listenedMs: 0,
+    };
+    trackEntry.plays += 1;
+    trackEntry.listenedMs += play.listenedMs;
+    tracks.set(key, trackEntry);
+
+    for (const name of play.artists) {
+      const artistEntry = artists.get(name) ?? { name, plays: 0, listenedMs: 0 };
+      artistEntry.plays += 1;
+      artistEntry.listenedMs += play.listenedMs;
+      artists.set(name, artistEntry);
+    }
+
+    const bucket = buckets[Math.min(buckets.length - 1, Math.floor((play.startedAt - from) / bucketMs))];
+    bucket.listenedMs += play.listenedMs;
+  }
+
+  const byPlays = <T extends { plays: number; listenedMs: number }>(a: T, b: T) =>
+    b.plays - a.plays || b.listenedMs - a.listenedMs;
+
+  return {
+    range,
+    from: new Date(from).toISOString(),
+    to: new Date(to).toISOString(),
+    plays: plays.length,
+    listenedMs,
+    topTracks: [...tracks.values()].sort(byPlays).slice(0, TOP_LIMIT),
+    topArtists: [...artists.values()].sort(byPlays).slice(0, TOP_LIMIT),
+    buckets,
+  };
+};
+
+export type ListeningStats = Awaited<ReturnType<typeof getListeningStats>>;
@@ -0,0 +1,50 @@
+// Formatters are costly to build and the globe asks for the same two zones every minute.
+const clockFormatters = new Map<string, Intl.DateTimeFormat>();
+const offsetFormatters = new Map<string, Intl.DateTimeFormat>();
+
+const cachedFormatter = (cache: Map<string, Intl.DateTimeFormat>, timeZone: string, create: () => Intl.DateTimeFormat) => {
+  let formatter = cache.get(timeZone);
+  if (!formatter) {
+    formatter = create();
+    cache.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+// "21:40" or "9:40 PM", following the visitor's locale.
+export const formatClock = (timeZone: string, date: Date) =>
+  cachedFormatter(
+    clockFormatters,
+    timeZone,
+    () => new Intl.DateTimeFormat(undefined, { timeZone, hour: "numeric", minute: "2-digit" })
+  ).format(date);
+
+// Minutes ahead of UTC in `timeZone` at `date`, daylight saving included.
+export const utcOffsetMinutes = (timeZone: string, date: Date) => {
+  const name = cachedFormatter(
+    offsetFormatters,
+    timeZone,
+    () => new Intl.DateTimeFormat("en-US", { timeZone, timeZoneName: "longOffset" })
+  )
+    .formatToParts(date)
+    .find((part) => part.type === "timeZoneName")?.value;
+
+  const match = name?.match(/^GMT([+-])(\d{2}):(\d{2})$/);
+  if (!match) return 0; // plain "GMT"
+  const minutes = Number(match[2]) * 60 + Number(match[3]);
+  return match[1] === "-" ? -minutes : minutes;
+};
+
+const formatDuration = (minutes: number) => {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  if (hours === 0) return `${rest} min`;
+  return rest === 0 ? `${hours} h` : `${hours} h ${rest} min`;
+};
+
+// "Petar is 9 h ahead", "Petar is 5 h 30 min behind" or "Same time as you", from the viewer's side.
+export const describeTimeDifference = (name: string, theirZone: string, yourZone: string, date: Date) => {
+  const diff = utcOffsetMinutes(theirZone, date) - utcOffsetMinutes(yourZone, date);
+  if (diff === 0) return "Same time as you";
+  return `${name} is ${formatDuration(Math.abs(diff))} ${diff > 0 ? "ahead" : "behind"}`;
+};
@@ -0,0 +1,90 @@
+import { coarsenPoint, getLocationPrivacy } from "@/lib/locationPrivacy";
+import { readJson, updateJson, writeJson } from "@/lib/store";
+
+export type OwnerLocation = {
+  lat: number;
+  lng: number;
+  label: string;
+  updatedAt: string;
+};
+
+// What anonymous visitors see: coordinates are coarsened per the admin privacy setting.
+export type PublicLocation = OwnerLocation & {
+  approximate: boolean;
+  precisionKm?: number;
+};
+
+export type LocationInput = Pick<OwnerLocation, "lat" | "lng" | "label">;
+
+const STORE_KEY = "owner-location";
+const HISTORY_STORE_KEY = "owner-location-history";
+const MAX_HISTORY_ENTRIES = 500;
+const MAX_LABEL_LENGTH = 80;
+
+export const DEFAULT_OWNER_LOCATION: OwnerLocation = {
+  lat: 45.815,
+  lng: 15.9819,
+  label: "Petar (general area)",
+  updatedAt: new Date(0).toISOString(),
+};
+
+export const getOwnerLocation = () => readJson<OwnerLocation>(STORE_KEY, DEFAULT_OWNER_LOCATION);
+
+export const parseLocationInput = (
+  input: unknown
+): { ok: true; value: LocationInput } | { ok: false; error: string } => {
+  if (!input || typeof input !== "object") return { ok: false, error: "Expected an object body" };
+  const { lat, lng, label } = input as { lat?: unknown; lng?: unknown; label?: unknown };
+
+  if (typeof lat !== "number" || !Number.isFinite(lat) || lat < -90 || lat > 90) {
+    return { ok: false, error: "lat must be a number between -90 and 90" };
+  }
+  if (typeof lng !== "number" || !Number.isFinite(lng) || lng < -180 || lng > 180) {
+    return { ok: false, error: "lng must be a number between -180 and 180" };
+  }
+  if (label !== undefined && typeof label !== "string") {
+    return { ok: false, error: "label must be a string" };
+  }
+
+  const trimmed = (label ?? "").trim().slice(0, MAX_LABEL_LENGTH);
+  return {
+    ok: true,
+    value: { lat, lng, label: trimmed || DEFAULT_OWNER_LOCATION.label },
+  };
+};
+
+// Oldest first, newest last.
+export const getLocationHistory = async (limit?: number) => {
+  const history = await readJson<OwnerLocation[]>(HISTORY_STORE_KEY, []);
+  return typeof limit === "number" ? history.slice(-limit) : history;
+};
+
+export const getPublicLocation = async (): Promise<PublicLocation> => {
+  const [location, privacy] = await Promise.all([getOwnerLocation(), getLocationPrivacy()]);
+  return { ...location, ...coarsenPoint(location, privacy) };
+};
+
+export const getPublicLocationHistory = async (limit?: number): Promise<PublicLocation[]> => {
+  const [history, privacy] = await Promise.all([getLocationHistory(), getLocationPrivacy()]);
+  const published: PublicLocation[] = [];
+  for (const entry of history) {
+    const coarse: PublicLocation = { ...entry, ...coarsenPoint(entry, privacy) };
+    const previous = published[published.length - 1];
+    // Moves within the same coarse cell collapse into one stop.
+    if (previous && previous.lat === coarse.lat && previous.lng === coarse.lng) {
+      published[published.length - 1] = coarse;
+      continue;
+    }
+    published.push(coarse);
+  }
+  return typeof limit === "number" ? published.slice(-limit) : published;
+};
+
+export const setOwnerLocation = async (input: LocationInput) => {
+  const location: OwnerLocation = { ...input, updatedAt: new Date().toISOString() };
+  await writeJson(STORE_KEY, location);
+  await updateJson<OwnerLocation[]>(HISTORY_STORE_KEY, [], (history) =>
+    [...history, location].slice(-MAX_HISTORY_ENTRIES)
+  );
+  return location;
+};
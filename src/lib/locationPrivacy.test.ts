@@ -0,0 +1,87 @@
+import { describe, expect, it, vi } from "vitest";
+import { haversineKm } from "@/lib/geo";
+import { coarsenPoint, parsePrivacyInput } from "@/lib/locationPrivacy";
+
+const ZAGREB_SUBURB = { lat: 45.79, lng: 16.05 };
+
+describe("parsePrivacyInput", () => {
+  it("fills in defaults for grid size and jitter", () => {
+    expect(parsePrivacyInput({ mode: "city" })).toEqual({
+      ok: true,
+      value: { mode: "city", gridDegrees: 0.5, jitterKm: 0 },
+    });
+  });
+
+  it("rejects unknown modes and out-of-range numbers", () => {
+    expect(parsePrivacyInput({ mode: "blurry" }).ok).toBe(false);
+    expect(parsePrivacyInput({ mode: "grid", gridDegrees: 0.01 }).ok).toBe(false);
+    expect(parsePrivacyInput({ mode: "grid", gridDegrees: 11 }).ok).toBe(false);
+    expect(parsePrivacyInput({ mode: "exact", jitterKm: -1 }).ok).toBe(false);
+    expect(parsePrivacyInput({ mode: "exact", jitterKm: 101 }).ok).toBe(false);
+    expect(parsePrivacyInput({ mode: "exact", jitterKm: "5" }).ok).toBe(false);
+    expect(parsePrivacyInput(null).ok).toBe(false);
+  });
+});
+
+describe("coarsenPoint", () => {
+  it("passes the exact point through untouched", () => {
+    expect(coarsenPoint(ZAGREB_SUBURB, { mode: "exact", gridDegrees: 0.5, jitterKm: 0 })).toEqual({
+      ...ZAGREB_SUBURB,
+      approximate: false,
+    });
+  });
+
+  it("snaps to the centre of the grid cell", () => {
+    const point = coarsenPoint(ZAGREB_SUBURB, { mode: "grid", gridDegrees: 0.5, jitterKm: 0 });
+    expect(point).toMatchObject({ lat: 45.75, lng: 16.25, approximate: true, precisionKm: 28 });
+  });
+
+  it("gives every point in a cell the same answer", () => {
+    const privacy = { mode: "grid" as const, gridDegrees: 1, jitterKm: 0 };
+    expect(coarsenPoint({ lat: 45.01, lng: 15.99 }, privacy)).toEqual(coarsenPoint({ lat: 45.99, lng: 15.01 }, privacy));
+  });
+
+  it("snaps to the nearest listed city with a nominal precision", () => {
+    const point = coarsenPoint(ZAGREB_SUBURB, { mode: "city", gridDegrees: 0.5, jitterKm: 0 });
+    expect(point).toMatchObject({ lat: 45.815, lng: 15.982, approximate: true, precisionKm: 30 });
+  });
+
+  describe("jitter", () => {
+    const privacy = { mode: "city" as const, gridDegrees: 0.5, jitterKm: 20 };
+
+    it("moves the point by at most the radius, the same way every time", () => {
+      vi.stubEnv("LOCATION_JITTER_SECRET", "jitter-secret");
+      const first = coarsenPoint(ZAGREB_SUBURB, privacy);
+      const second = coarsenPoint(ZAGREB_SUBURB, privacy);
+
+      expect(second).toEqual(first);
+      expect(first.precisionKm).toBe(50);
+      const offset = haversineKm(first, { lat: 45.815, lng: 15.982 });
+      expect(offset).toBeGreaterThan(0);
+      expect(offset).toBeLessThanOrEqual(20.01);
+    });
+
+    it("depends on the secret", () => {
+      vi.stubEnv("LOCATION_JITTER_SECRET", "one");
+      const one = coarsenPoint(ZAGREB_SUBURB, privacy);
+      vi.stubEnv("LOCATION_JITTER_SECRET", "two");
+      expect(coarsenPoint(ZAGREB_SUBURB, privacy)).not.toEqual(one);
+    });
+
+    it("falls back to a subkey of the session key ring", () => {
+      vi.stubEnv("LOCATION_JITTER_SECRET", "");
+      vi.stubEnv("ADMIN_SESSION_SECRET", "");
+      vi.stubEnv("ADMIN_SESSION_KEYS", "k=ring-secret");
+      const point = coarsenPoint(ZAGREB_SUBURB, privacy);
+      expect(point.precisionKm).toBe(50);
+      expect(coarsenPoint(ZAGREB_SUBURB, privacy)).toEqual(point);
+    });
+
+    it("is skipped without any secret to key it", () => {
+      vi.stubEnv("LOCATION_JITTER_SECRET", "");
+      vi.stubEnv("ADMIN_SESSION_SECRET", "");
+      vi.stubEnv("ADMIN_SESSION_KEYS", "");
+      expect(coarsenPoint(ZAGREB_SUBURB, privacy)).toMatchObject({ lat: 45.815, lng: 15.982, precisionKm: 30 });
+    });
+  });
+});
@@ -0,0 +1,117 @@
+import crypto from "crypto";
+import { deriveSecret } from "@/lib/auth";
+import { nearestCity } from "@/lib/cities";
+import { destinationPoint } from "@/lib/geo";
+import { readJson, writeJson } from "@/lib/store";
+
+export type PrivacyMode = "exact" | "grid" | "city";
+
+export type LocationPrivacy = {
+  mode: PrivacyMode;
+  gridDegrees: number; // cell size when mode is "grid"
+  jitterKm: number; // 0 disables jitter
+};
+
+type LatLng = { lat: number; lng: number };
+
+const STORE_KEY = "location-privacy";
+const MIN_GRID_DEGREES = 0.05;
+const MAX_GRID_DEGREES = 10;
+const MAX_JITTER_KM = 100;
+const KM_PER_DEGREE = 111.32;
+// Nominal radius published for city snapping; the real distance to the centroid would leak position.
+const CITY_PRECISION_KM = 30;
+
+export const DEFAULT_LOCATION_PRIVACY: LocationPrivacy = {
+  mode: "exact",
+  gridDegrees: 0.5,
+  jitterKm: 0,
+};
+
+export const getLocationPrivacy = () => readJson<LocationPrivacy>(STORE_KEY, DEFAULT_LOCATION_PRIVACY);
+
+export const setLocationPrivacy = (privacy: LocationPrivacy) => writeJson(STORE_KEY, privacy);
+
+export const parsePrivacyInput = (
+  input: unknown
+): { ok: true; value: LocationPrivacy } | { ok: false; error: string } => {
+  if (!input || typeof input !== "object") return { ok: false, error: "Expected an object body" };
+  const { mode, gridDegrees, jitterKm } = input as { mode?: unknown; gridDegrees?: unknown; jitterKm?: unknown };
+
+  if (mode !== "exact" && mode !== "grid" && mode !== "city") {
+    return { ok: false, error: "mode must be one of exact, grid, city" };
+  }
+  const grid = gridDegrees ?? DEFAULT_LOCATION_PRIVACY.gridDegrees;
+  if (typeof grid !== "number" || !Number.isFinite(grid) || grid < MIN_GRID_DEGREES || grid > MAX_GRID_DEGREES) {
+    return { ok: false, error: `gridDegrees must be between ${MIN_GRID_DEGREES} and ${MAX_GRID_DEGREES}` };
+  }
+  const jitter = jitterKm ?? 0;
+  if (typeof jitter !== "number" || !Number.isFinite(jitter) || jitter < 0 || jitter > MAX_JITTER_KM) {
+    return { ok: false, error: `jitterKm must be between 0 and ${MAX_JITTER_KM}` };
+  }
+
+  return { ok: true, value: { mode, gridDegrees: grid, jitterKm: jitter } };
+};
+
+// ADMIN_SESSION_SECRET is kept as-is for deployments that already jitter with it; with a key ring, a
+// subkey of the signing key stands in, which moves the offsets whenever the first key rotates.
+const getJitterSecret = () => {
+  const configured = process.env.LOCATION_JITTER_SECRET || process.env.ADMIN_SESSION_SECRET;
+  if (configured) return configured;
+  try {
+    return deriveSecret("location-jitter");
+  } catch {
+    return null; // no signing key either, so nobody can sign in to turn jitter on
+  }
+};
+
+const snapToGrid = ({ lat, lng }: LatLng, size: number): LatLng => ({
+  lat: Math.min(Math.max(Math.floor(lat / size) * size + size / 2, -90), 90),
+  lng: Math.min(Math.max(Math.floor(lng / size) * size + size / 2, -180), 180),
+});
+
+// Offset seeded by the already-snapped point, so the same cell always jitters the same way
+// and repeated publishes can't be averaged back to the true position.
+const applyJitter = (point: LatLng, radiusKm: number, secret: string): LatLng => {
+  const digest = crypto
+    .createHmac("sha256", secret)
+    .update(`${point.lat.toFixed(5)},${point.lng.toFixed(5)}`)
+    .digest();
+  const u1 = digest.readUInt32BE(0) / 0xffffffff;
+  const u2 = digest.readUInt32BE(4) / 0xffffffff;
+  // sqrt keeps the offset uniformly distributed over the disc rather than clustered at the centre.
+  return destinationPoint(point, u1 * 2 * Math.PI, Math.sqrt(u2) * radiusKm);
+};
+
+export type CoarsenedPoint = LatLng & {
+  approximate: boolean;
+  precisionKm?: number;
+};
+
+export const coarsenPoint = (point: LatLng, privacy: LocationPrivacy): CoarsenedPoint => {
+  let snapped: LatLng = { lat: point.lat, lng: point.lng };
+  let precisionKm = 0;
+
+  if (privacy.mode === "grid") {
+    snapped = snapToGrid(point, privacy.gridDegrees);
+    precisionKm = (privacy.gridDegrees * KM_PER_DEGREE) / 2;
+  } else if (privacy.mode === "city") {
+    const { city } = nearestCity(point);
+    snapped = { lat: city.lat, lng: city.lng };
+    precisionKm = CITY_PRECISION_KM;
+  }
+
+  const secret = getJitterSecret();
+  if (privacy.jitterKm > 0 && secret) {
+    snapped = applyJitter(snapped, privacy.jitterKm, secret);
+    precisionKm += privacy.jitterKm;
+  }
+
+  if (precisionKm === 0) return { ...snapped, approximate: false };
+  return {
+    lat: Number(snapped.lat.toFixed(4)),
+    lng: Number(snapped.lng.toFixed(4)),
+    approximate: true,
+    precisionKm: Math.round(precisionKm),
+  };
+};
@@ -0,0 +1,78 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+// Throttle state lives at module level; import a fresh copy for every test.
+const loadThrottle = () => import("@/lib/loginThrottle");
+
+describe("login throttle", () => {
+  beforeEach(() => {
+    vi.resetModules();
+    vi.useFakeTimers({ now: new Date("2026-10-01T00:00:00Z") });
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("lets the first few failures through without a delay", async () => {
+    const { checkLoginAllowed, recordLoginFailure } = await loadThrottle();
+    expect(recordLoginFailure("1.1.1.1")).toBe(0);
+    expect(recordLoginFailure("1.1.1.1")).toBe(0);
+    expect(checkLoginAllowed("1.1.1.1")).toEqual({ allowed: true });
+  });
+
+  it("doubles the lockout with every further failure, up to an hour", async () => {
+    const { checkLoginAllowed, recordLoginFailure } = await loadThrottle();
+    recordLoginFailure("1.1.1.1");
+    recordLoginFailure("1.1.1.1");
+    expect(recordLoginFailure("1.1.1.1")).toBe(2);
+    expect(checkLoginAllowed("1.1.1.1")).toEqual({ allowed: false, retryAfterSeconds: 2 });
+    expect(recordLoginFailure("1.1.1.1")).toBe(4);
+    expect(recordLoginFailure("1.1.1.1")).toBe(8);
+
+    for (let i = 0; i < 20; i += 1) recordLoginFailure("1.1.1.1");
+    expect(recordLoginFailure("1.1.1.1")).toBe(3600);
+  });
+
+  it("allows another attempt once the lockout has passed", async () => {
+    const { checkLoginAllowed, recordLoginFailure } = await loadThrottle();
+    for (let i = 0; i < 3; i += 1) recordLoginFailure("1.1.1.1");
+    vi.advanceTimersByTime(2_001);
+    expect(checkLoginAllowed("1.1.1.1")).toEqual({ allowed: true });
+  });
+
+  it("only throttles the failing address", async () => {
+    const { checkLoginAllowed, recordLoginFailure } = await loadThrottle();
+    for (let i = 0; i < 3; i += 1) recordLoginFailure("1.1.1.1");
+    expect(checkLoginAllowed("2.2.2.2")).toEqual({ allowed: true });
+  });
+
+  it("forgets an address after a successful login", async () => {
+    const { checkLoginAllowed, recordLoginFailure, recordLoginSuccess } = await loadThrottle();
+    for (let i = 0; i < 3; i += 1) recordLoginFailure("1.1.1.1");
+    recordLoginSuccess("1.1.1.1");
+    expect(checkLoginAllowed("1.1.1.1")).toEqual({ allowed: true });
+    expect(recordLoginFailure("1.1.1.1")).toBe(0);
+  });
+
+  it("locks everyone out after 50 failures within 15 minutes", async () => {
+    const { checkLoginAllowed, recordLoginFailure } = await loadThrottle();
+    for (let i = 0; i < 49; i += 1) recordLoginFailure(`10.0.0.${i}`);
+    expect(checkLoginAllowed("2.2.2.2")).toEqual({ allowed: true });
+
+    expect(recordLoginFailure("10.0.1.0")).toBe(900);
+    expect(checkLoginAllowed("2.2.2.2")).toEqual({ allowed: false, retryAfterSeconds: 900 });
+
+    vi.advanceTimersByTime(15 * 60 * 1000 + 1);
+    expect(checkLoginAllowed("2.2.2.2")).toEqual({ allowed: true });
+  });
+
+  it("does not count failures older than the global window", async () => {
+    const { checkLoginAllowed, recordLoginFailure } = await loadThrottle();
+    for (let i = 0; i < 49; i += 1) recordLoginFailure(`10.0.0.${i}`);
+    vi.advanceTimersByTime(15 * 60 * 1000 + 1);
+    recordLoginFailure("10.0.1.0");
+    expect(checkLoginAllowed("2.2.2.2")).toEqual({ allowed: true });
+  });
+});
@@ -0,0 +1,59 @@
+import { createLruCache } from "@/lib/lruCache";
+
+type FailureState = { failures: number; lockedUntil: number };
+
+const FREE_ATTEMPTS = 3; // failures before any delay kicks in
+const BASE_DELAY_MS = 2_000;
+const MAX_DELAY_MS = 60 * 60 * 1000;
+const FAILURE_MEMORY_MS = 24 * 60 * 60 * 1000; // forget an address after a quiet day
+
+// Across all addresses, so a distributed guess spread over many IPs still trips a lockout.
+const GLOBAL_WINDOW_MS = 15 * 60 * 1000;
+const GLOBAL_MAX_FAILURES = 50;
+const GLOBAL_LOCKOUT_MS = 15 * 60 * 1000;
+
+const perIp = createLruCache<FailureState>({ maxEntries: 10_000, ttlMs: FAILURE_MEMORY_MS });
+const global = { failures: [] as number[], lockedUntil: 0 };
+
+const backoffMs = (failures: number) => {
+  if (failures < FREE_ATTEMPTS) return 0;
+  return Math.min(BASE_DELAY_MS * 2 ** (failures - FREE_ATTEMPTS), MAX_DELAY_MS);
+};
+
+const toSeconds = (ms: number) => Math.max(1, Math.ceil(ms / 1000));
+
+export type ThrottleResult = { allowed: true } | { allowed: false; retryAfterSeconds: number };
+
+export const checkLoginAllowed = (ip: string): ThrottleResult => {
+  const now = Date.now();
+  if (global.lockedUntil > now) return { allowed: false, retryAfterSeconds: toSeconds(global.lockedUntil - now) };
+
+  const state = perIp.get(ip);
+  if (state && state.lockedUntil > now) return { allowed: false, retryAfterSeconds: toSeconds(state.lockedUntil - now) };
+  return { allowed: true };
+};
+
+// Returns the lockout now in force for this address (0 when another attempt is allowed right away).
+export const recordLoginFailure = (ip: string) => {
+  const now = Date.now();
+  const previous = perIp.get(ip);
+  const failures = (previous?.failures ?? 0) + 1;
+  const lockedUntil = now + backoffMs(failures);
+  perIp.set(ip, { failures, lockedUntil });
+
+  global.failures = global.failures.filter((at) => at > now - GLOBAL_WINDOW_MS);
+  global.failures.push(now);
+  if (global.failures.length >= GLOBAL_MAX_FAILURES) {
+    global.lockedUntil = now + GLOBAL_LOCKOUT_MS;
+    global.failures = [];
+    console.warn(`Admin login locked globally for ${GLOBAL_LOCKOUT_MS / 1000}s after repeated failures`);
+  }
+
+  console.warn(`Admin login failed from ${ip || "unknown"} (${failures} consecutive failures)`);
+  const until = Math.max(lockedUntil, global.lockedUntil);
+  return until > now ? toSeconds(until - now) : 0;
+};
+
+export const recordLoginSuccess = (ip: string) => {
+  perIp.delete(ip);
+};
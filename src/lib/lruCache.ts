@@ -0,0 +1,37 @@
+type Entry<V> = { value: V; expiresAt: number };
+
+export type LruCache<V> = {
+  get: (key: string) => V | undefined;
+  set: (key: string, value: V, ttlMs?: number) => void;
+  delete: (key: string) => void;
+  size: () => number;
+};
+
+// Map iteration order doubles as recency order: reads re-insert, eviction takes the first key.
+export const createLruCache = <V>({ maxEntries, ttlMs }: { maxEntries: number; ttlMs: number }): LruCache<V> => {
+  const entries = new Map<string, Entry<V>>();
+
+  return {
+    get: (key) => {
+      const entry = entries.get(key);
+      if (!entry) return undefined;
+      entries.delete(key);
+      if (entry.expiresAt <= Date.now()) return undefined;
+      entries.set(key, entry);
+      return entry.value;
+    },
+    set: (key, value, entryTtlMs = ttlMs) => {
+      entries.delete(key);
+      entries.set(key, { value, expiresAt: Date.now() + entryTtlMs });
+      while (entries.size > maxEntries) {
+        const oldest = entries.keys().next().value;
+        if (oldest === undefined) break;
+        entries.delete(oldest);
+      }
+    },
+    delete: (key) => {
+      entries.delete(key);
+    },
+    size: () => entries.size,
+  };
+};
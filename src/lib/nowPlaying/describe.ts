@@ -0,0 +1,38 @@
+import type { PlaybackPayload } from "./types";
+
+export type PlaybackSummary = {
+  state: "playing" | "paused" | "idle";
+  title: string;
+  subtitle?: string;
+};
+
+// Plain-text lines for places that can't run the NowPlaying component: the OG image and the badge.
+// Mirrors the card's wording for ads, unknown items and privacy placeholders.
+export const describePlayback = (payload: PlaybackPayload | null): PlaybackSummary => {
+  if (!payload) return { state: "idle", title: "Not playing" };
+  if (payload.privacy === "paused") return { state: "idle", title: "Listening privately" };
+  if (payload.privacy === "hidden") {
+    return { state: payload.isPlaying ? "playing" : "paused", title: "Something private" };
+  }
+  if (!payload.isPlaying && !payload.track) return { state: "idle", title: "Not playing" };
+
+  const state = payload.isPlaying ? "playing" : "paused";
+  switch (payload.currentlyPlayingType) {
+    case "ad":
+      return { state, title: "Advertisement" };
+    case "unknown":
+      return { state, title: "Something's playing" };
+    case "episode":
+      return {
+        state,
+        title: payload.track ?? "Podcast episode",
+        subtitle: [payload.show, payload.publisher].filter(Boolean).join(" • ") || undefined,
+      };
+    default:
+      return {
+        state,
+        title: payload.track ?? "Unknown track",
+        subtitle: payload.artists,
+      };
+  }
+};
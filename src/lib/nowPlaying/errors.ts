@@ -0,0 +1,53 @@
+// Stable codes that may be shown to clients; the upstream detail only goes to the server log.
+export type PlaybackErrorCode =
+  | "not_configured"
+  | "auth_failed"
+  | "rate_limited"
+  | "upstream_unavailable"
+  | "upstream_error";
+
+export class PlaybackError extends Error {
+  readonly code: PlaybackErrorCode;
+  readonly retryAfterMs?: number;
+
+  constructor(code: PlaybackErrorCode, message: string, retryAfterMs?: number) {
+    super(message);
+    this.name = "PlaybackError";
+    this.code = code;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+export const toPlaybackError = (error: unknown) =>
+  error instanceof PlaybackError
+    ? error
+    : new PlaybackError("upstream_error", error instanceof Error ? error.message : "Unknown error");
+
+// Retry-After is either delta-seconds or an HTTP date.
+export const parseRetryAfter = (header: string | null) => {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+// Maps an upstream HTTP failure to a code: 429 and 5xx are transient, 401/403 mean the credentials are bad.
+export const playbackErrorFromResponse = (res: Response, message: string) => {
+  if (res.status === 429) {
+    return new PlaybackError("rate_limited", message, parseRetryAfter(res.headers.get("Retry-After")));
+  }
+  if (res.status >= 500) return new PlaybackError("upstream_unavailable", message);
+  if (res.status === 401 || res.status === 403) return new PlaybackError("auth_failed", message);
+  return new PlaybackError("upstream_error", message);
+};
+
+// HTTP status and Retry-After for a route answering with nothing to serve.
+export const describePlaybackError = (error: unknown) => {
+  const { code, retryAfterMs } = toPlaybackError(error);
+  return {
+    code,
+    status: code === "upstream_error" ? 502 : 503,
+    retryAfterSeconds: retryAfterMs !== undefined ? Math.max(1, Math.ceil(retryAfterMs / 1000)) : undefined,
+  };
+};
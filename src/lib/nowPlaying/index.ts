@@ -0,0 +1,240 @@
+import { getAlbumPalette } from "@/lib/albumPalette";
+import { observePlayback } from "@/lib/listeningStats";
+import { readSeenTracks, recordSeenTrack } from "@/lib/seenTracks";
+import { createLastfmProvider } from "./lastfm";
+import { PlaybackError, toPlaybackError } from "./errors";
+import { createManualProvider } from "./manual";
+import { applyNowPlayingPrivacy, filterRecentTracks, getNowPlayingPrivacy } from "./privacy";
+import { createSpotifyProvider } from "./spotify";
+import type { NowPlayingProvider, PlaybackPayload, PlaybackSource, RecentTrack } from "./types";
+
+export type { NowPlayingProvider, PlaybackPayload, PlaybackRefs, PlaybackSource, RecentTrack } from "./types";
+export { clearManualTrack, getManualTrack, parseManualTrackInput, setManualTrack } from "./manual";
+export type { ManualTrack, ManualTrackInput } from "./manual";
+export { describePlayback } from "./describe";
+export type { PlaybackSummary } from "./describe";
+export { describePlaybackError } from "./errors";
+export type { PlaybackErrorCode } from "./errors";
+export {
+  addBlockRule,
+  getNowPlayingPrivacy,
+  parseBlockRuleInput,
+  parsePauseInput,
+  pauseBroadcasting,
+  removeBlockRule,
+  resumeBroadcasting,
+} from "./privacy";
+export type { BlockBehaviour, BlockKind, BlockRule, NowPlayingPrivacy } from "./privacy";
+
+const PLAYBACK_CACHE_MS = 8_000;
+const RECENTLY_PLAYED_CACHE_MS = 60_000;
+const RECENTLY_PLAYED_FETCH_LIMIT = 50;
+const DEFAULT_PROVIDERS = "manual,spotify,lastfm";
+const BACKOFF_BASE_MS = 5_000;
+const BACKOFF_MAX_MS = 5 * 60_000; // unless upstream asks for longer via Retry-After
+const STALE_MAX_MS = 10 * 60_000; // older than this, the last good payload is no longer worth showing
+
+const playbackCache: { payload: PlaybackPayload | null; fetchedAt: number } = {
+  payload: null,
+  fetchedAt: 0,
+};
+
+const recentCache: { tracks: RecentTrack[] | null; fetchedAt: number } = {
+  tracks: null,
+  fetchedAt: 0,
+};
+
+// The refresh in flight, so every caller that finds the cache expired shares one upstream fetch.
+let playbackRefresh: Promise<PlaybackPayload> | null = null;
+
+// Per-provider circuit breaker, opened by rate limits and upstream outages.
+const breakers = new Map<PlaybackSource, { failures: number; openUntil: number; error: PlaybackError }>();
+
+let cachedChain: { signature: string; providers: NowPlayingProvider[] } | null = null;
+
+const buildProvider = (name: string): NowPlayingProvider | null => {
+  switch (name) {
+    case "spotify":
+      return createSpotifyProvider();
+    case "lastfm":
+    case "last.fm":
+      return createLastfmProvider();
+    case "manual":
+      return createManualProvider();
+    default:
+      console.warn(`Unknown now-playing provider "${name}"; skipping it.`);
+      return null;
+  }
+};
+
+// NOW_PLAYING_PROVIDERS is an ordered, comma-separated priority list, e.g. "manual,spotify,lastfm".
+const getProviderChain = () => {
+  const configured = process.env.NOW_PLAYING_PROVIDERS || DEFAULT_PROVIDERS;
+  if (cachedChain?.signature === configured) return cachedChain.providers;
+
+  const providers = configured
+    .split(",")
+    .map((name) => name.trim().toLowerCase())
+    .filter(Boolean)
+    .map(buildProvider)
+    .filter((provider): provider is NowPlayingProvider => provider !== null);
+
+  cachedChain = { signature: configured, providers };
+  return providers;
+};
+
+const getConfiguredProviders = async () => {
+  const chain = getProviderChain();
+  const configured = await Promise.all(chain.map((provider) => provider.isConfigured().catch(() => false)));
+  return chain.filter((_, i) => configured[i]);
+};
+
+// Runs a provider call unless its breaker is open. Transient failures open it for Retry-After when
+// upstream sent one, else for an exponential backoff; other failures (bad credentials, missing scopes)
+// pass straight through. A success closes it.
+const callProvider = async <T>(provider: NowPlayingProvider, call: () => Promise<T>) => {
+  const breaker = breakers.get(provider.name);
+  const now = Date.now();
+  if (breaker && breaker.openUntil > now) {
+    throw new PlaybackError(breaker.error.code, `backing off: ${breaker.error.message}`, breaker.openUntil - now);
+  }
+
+  try {
+    const result = await call();
+    breakers.delete(provider.name);
+    return result;
+  } catch (error) {
+    const failure = toPlaybackError(error);
+    if (failure.code !== "rate_limited" && failure.code !== "upstream_unavailable") throw failure;
+
+    const failures = (breaker?.failures ?? 0) + 1;
+    const backoffMs = Math.max(
+      Math.min(BACKOFF_BASE_MS * 2 ** (failures - 1), BACKOFF_MAX_MS),
+      failure.retryAfterMs ?? 0
+    );
+    breakers.set(provider.name, { failures, openUntil: Date.now() + backoffMs, error: failure });
+    console.warn(`Now-playing provider ${provider.name} failed; backing off for ${Math.round(backoffMs / 1000)}s`, failure.message);
+    throw failure;
+  }
+};
+
+// One error for the whole chain: the first provider's code, and the soonest any breaker reopens.
+const combineFailures = (failures: { name: string; error: PlaybackError }[]) => {
+  const retryAfters = failures.flatMap(({ error }) => (error.retryAfterMs !== undefined ? [error.retryAfterMs] : []));
+  return new PlaybackError(
+    failures[0].error.code,
+    failures.map(({ name, error }) => `${name}: ${error.message}`).join("; "),
+    retryAfters.length > 0 ? Math.min(...retryAfters) : undefined
+  );
+};
+
+// The first provider that reports something playing wins. Otherwise prefer a paused track over an
+// empty answer, in chain order. Throws only when every configured provider failed.
+const fetchFromChain = async (): Promise<PlaybackPayload> => {
+  const providers = await getConfiguredProviders();
+  if (providers.length === 0) throw new PlaybackError("not_configured", "No now-playing provider is configured");
+
+  const failures: { name: string; error: PlaybackError }[] = [];
+  let fallback: PlaybackPayload | null = null;
+
+  for (const provider of providers) {
+    try {
+      const payload = await callProvider(provider, () => provider.fetchNowPlaying());
+      if (payload.isPlaying) return payload;
+      if (!fallback || (!fallback.track && payload.track)) fallback = payload;
+    } catch (error) {
+      failures.push({ name: provider.name, error: toPlaybackError(error) });
+    }
+  }
+
+  if (fallback) return fallback;
+  throw combineFailures(failures);
+};
+
+const refreshPlayback = async () => {
+  const fetched = await fetchFromChain();
+  // Cached per cover, so this only costs a download when the artwork changes.
+  const palette = await getAlbumPalette(fetched.albumImageUrl);
+  const raw = palette ? { ...fetched, palette } : fetched;
+  playbackCache.payload = raw;
+  playbackCache.fetchedAt = Date.now();
+  const payload = applyNowPlayingPrivacy(raw, await getNowPlayingPrivacy());
+  // History and stats get the refs back for anything privacy let through, so block rules added later
+  // can still match what they stored. Both strip refs before anything reaches a client.
+  const observed = payload.track ? { ...payload, refs: raw.refs } : payload;
+  recordSeenTrack(observed).catch((error) => console.warn("Failed to record seen track", error));
+  observePlayback(observed).catch((error) => console.warn("Failed to record play", error));
+  return raw;
+};
+
+// Shared by the JSON route and the stream poller, so both hit upstream at most once per PLAYBACK_CACHE_MS.
+// The cache holds the raw payload; privacy settings apply on every call, so pausing or blocking is
+// immediate and nothing they hide reaches a client or the play history. While upstream fails or a
+// breaker is open, the last good payload is served with `stale: true` for up to STALE_MAX_MS.
+export const getNowPlaying = async (): Promise<PlaybackPayload> => {
+  const privacy = await getNowPlayingPrivacy();
+  const cached = playbackCache.payload;
+  const age = Date.now() - playbackCache.fetchedAt;
+  if (cached && age < PLAYBACK_CACHE_MS) return applyNowPlayingPrivacy(cached, privacy);
+
+  playbackRefresh ??= refreshPlayback().finally(() => {
+    playbackRefresh = null;
+  });
+
+  try {
+    return applyNowPlayingPrivacy(await playbackRefresh, privacy);
+  } catch (error) {
+    if (cached && age < STALE_MAX_MS) return { ...applyNowPlayingPrivacy(cached, privacy), stale: true };
+    throw toPlaybackError(error);
+  }
+};
+
+export const playbackPollIntervalMs = PLAYBACK_CACHE_MS;
+
+const trackKey = (track: RecentTrack) => track.trackId ?? track.trackUrl ?? `${track.track}|${track.artists ?? ""}`;
+
+const fetchRemoteRecent = async () => {
+  const providers = (await getConfiguredProviders()).filter((provider) => provider.fetchRecentlyPlayed);
+  const results = await Promise.allSettled(
+    providers.map((provider) =>
+      callProvider(provider, async () => (await provider.fetchRecentlyPlayed?.(RECENTLY_PLAYED_FETCH_LIMIT)) ?? [])
+    )
+  );
+  const rejected = results.find((result) => result.status === "rejected");
+  const tracks = results.flatMap((result) => (result.status === "fulfilled" ? result.value : []));
+  if (rejected && tracks.length === 0) throw rejected.reason;
+  return tracks;
+};
+
+// Provider history merged with tracks we saw via now-playing (which covers plays a provider hasn't
+// reported yet, or everything when none offers history). Newest first, one entry per track, with
+// blocked tracks and plays from paused stretches left out.
+export const getRecentlyPlayed = async (limit: number) => {
+  let remote: RecentTrack[] = [];
+  let remoteError: unknown = null;
+  try {
+    if (!recentCache.tracks || Date.now() - recentCache.fetchedAt >= RECENTLY_PLAYED_CACHE_MS) {
+      recentCache.tracks = await fetchRemoteRecent();
+      recentCache.fetchedAt = Date.now();
+    }
+    remote = recentCache.tracks;
+  } catch (error) {
+    remoteError = error;
+  }
+
+  const [local, privacy] = await Promise.all([readSeenTracks(), getNowPlayingPrivacy()]);
+  if (remoteError && local.length === 0) throw remoteError;
+
+  const seen = new Set<string>();
+  const tracks = filterRecentTracks([...remote, ...local], privacy)
+    .sort((a, b) => Date.parse(b.playedAt) - Date.parse(a.playedAt))
+    .filter((track) => {
+      const key = trackKey(track);
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .slice(0, limit);
+
+  return { tracks, lastPlayedAt: tracks[0]?.playedAt ?? null };
+};
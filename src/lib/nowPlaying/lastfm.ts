@@ -0,0 +1,107 @@
+import { PlaybackError, parseRetryAfter, playbackErrorFromResponse } from "./errors";
+import type { NowPlayingProvider, PlaybackPayload, RecentTrack } from "./types";
+
+type LastfmTrack = {
+  name: string;
+  mbid?: string;
+  url?: string;
+  artist?: { "#text"?: string; name?: string };
+  album?: { "#text"?: string };
+  image?: { size: string; "#text": string }[];
+  date?: { uts: string };
+  "@attr"?: { nowplaying?: string };
+};
+
+type LastfmRecentTracks = {
+  recenttracks?: { track?: LastfmTrack[] | LastfmTrack };
+  error?: number;
+  message?: string;
+};
+
+const API_URL = "https://ws.audioscrobbler.com/2.0/";
+const RECENT_TRACKS_MAX = 200; // Last.fm's page size limit
+// Last.fm API error codes: https://www.last.fm/api/errorcodes
+const LASTFM_AUTH_ERRORS = new Set([10, 26]); // invalid or suspended API key
+const LASTFM_UNAVAILABLE_ERRORS = new Set([11, 16]); // service offline, temporary error
+const LASTFM_RATE_LIMITED = 29;
+// Last.fm's grey star placeholder, returned instead of an empty image for tracks without art.
+const PLACEHOLDER_IMAGE_ID = "2a96cbd8b46e442fc41c2b86b821562f";
+
+const getEnv = () => {
+  const apiKey = process.env.LASTFM_API_KEY;
+  const username = process.env.LASTFM_USERNAME;
+  if (!apiKey || !username) throw new PlaybackError("not_configured", "Missing one of LASTFM_API_KEY, LASTFM_USERNAME");
+  return { apiKey, username };
+};
+
+const pickImage = (images: LastfmTrack["image"]) => {
+  const usable = (images ?? []).filter((img) => img["#text"] && !img["#text"].includes(PLACEHOLDER_IMAGE_ID));
+  return (usable.find((img) => img.size === "extralarge") ?? usable[usable.length - 1])?.["#text"];
+};
+
+const fetchRecentTracks = async (limit: number) => {
+  const { apiKey, username } = getEnv();
+  const url = new URL(API_URL);
+  url.searchParams.set("method", "user.getrecenttracks");
+  url.searchParams.set("user", username);
+  url.searchParams.set("api_key", apiKey);
+  url.searchParams.set("format", "json");
+  url.searchParams.set("limit", String(Math.min(limit, RECENT_TRACKS_MAX)));
+
+  const res = await fetch(url, { cache: "no-store", headers: { "User-Agent": "juric-now-playing/1.0" } }).catch(
+    (error: unknown) => {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      throw new PlaybackError("upstream_unavailable", `Last.fm request failed: ${message}`);
+    }
+  );
+  const body = (await res.json().catch(() => ({}))) as LastfmRecentTracks;
+  if (!res.ok || body.error) {
+    const message = `Last.fm recent tracks failed: ${res.status} ${(body.message ?? "").slice(0, 200)}`;
+    // Last.fm often reports failures as an error code in the body, sometimes with a 200.
+    if (body.error === LASTFM_RATE_LIMITED) {
+      throw new PlaybackError("rate_limited", message, parseRetryAfter(res.headers.get("Retry-After")));
+    }
+    if (body.error && LASTFM_AUTH_ERRORS.has(body.error)) throw new PlaybackError("auth_failed", message);
+    if (body.error && LASTFM_UNAVAILABLE_ERRORS.has(body.error)) throw new PlaybackError("upstream_unavailable", message);
+    throw playbackErrorFromResponse(res, message);
+  }
+
+  // A single result comes back as an object rather than a one-element array.
+  const tracks = body.recenttracks?.track;
+  return Array.isArray(tracks) ? tracks : tracks ? [tracks] : [];
+};
+
+const describe = (track: LastfmTrack) => {
+  // Last.fm reports one artist credit; it may itself contain commas ("Tyler, The Creator").
+  const artists = track.artist?.["#text"] || track.artist?.name || undefined;
+  return {
+    trackId: track.mbid || undefined,
+    track: track.name,
+    artists,
+    album: track.album?.["#text"] || undefined,
+    albumImageUrl: pickImage(track.image),
+    trackUrl: track.url,
+    refs: { artistNames: artists ? [artists] : [] },
+  };
+};
+
+// Last.fm only knows what was scrobbled: no pause state, duration or progress.
+export const createLastfmProvider = (): NowPlayingProvider => ({
+  name: "lastfm",
+  isConfigured: async () => Boolean(process.env.LASTFM_API_KEY && process.env.LASTFM_USERNAME),
+  fetchNowPlaying: async () => {
+    const [latest] = await fetchRecentTracks(1);
+    const payload: PlaybackPayload = { isPlaying: false, lastUpdated: new Date().toISOString(), source: "lastfm" };
+    if (!latest || latest["@attr"]?.nowplaying !== "true") return payload;
+    return { ...payload, ...describe(latest), isPlaying: true, currentlyPlayingType: "track" };
+  },
+  fetchRecentlyPlayed: async (limit) => {
+    const tracks = await fetchRecentTracks(limit);
+    return tracks
+      .filter((track) => track.date?.uts)
+      .map((track): RecentTrack => ({
+        ...describe(track),
+        playedAt: new Date(Number(track.date?.uts) * 1000).toISOString(),
+      }));
+  },
+});
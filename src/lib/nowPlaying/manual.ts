@@ -0,0 +1,126 @@
+import { readJson, writeJson } from "@/lib/store";
+import type { NowPlayingProvider } from "./types";
+
+export type ManualTrack = {
+  track: string;
+  artists?: string;
+  album?: string;
+  albumImageUrl?: string;
+  trackUrl?: string;
+  durationMs?: number;
+  startedAt: string;
+  expiresAt: string; // after this the entry is ignored and the next provider in the chain takes over
+  setBy: string; // admin user id
+};
+
+export type ManualTrackInput = Pick<ManualTrack, "track" | "artists" | "album" | "albumImageUrl" | "trackUrl" | "durationMs">;
+
+const STORE_KEY = "manual-now-playing";
+const MAX_TEXT_LENGTH = 200;
+const MAX_DURATION_MS = 3 * 60 * 60 * 1000;
+const DEFAULT_TTL_MS = 60 * 60 * 1000; // without a duration, an entry shows for an hour
+
+const optionalText = (value: unknown, field: string): { ok: true; value?: string } | { ok: false; error: string } => {
+  if (value === undefined || value === null || value === "") return { ok: true };
+  if (typeof value !== "string") return { ok: false, error: `${field} must be a string` };
+  return { ok: true, value: value.trim().slice(0, MAX_TEXT_LENGTH) || undefined };
+};
+
+const optionalHttpsUrl = (value: unknown, field: string): { ok: true; value?: string } | { ok: false; error: string } => {
+  const text = optionalText(value, field);
+  if (!text.ok || !text.value) return text;
+  try {
+    if (new URL(text.value).protocol === "https:") return text;
+  } catch {
+    // fall through
+  }
+  return { ok: false, error: `${field} must be an https URL` };
+};
+
+export const parseManualTrackInput = (
+  input: unknown
+): { ok: true; value: ManualTrackInput } | { ok: false; error: string } => {
+  if (!input || typeof input !== "object") return { ok: false, error: "Expected an object body" };
+  const body = input as Record<string, unknown>;
+
+  const track = optionalText(body.track, "track");
+  if (!track.ok) return track;
+  if (!track.value) return { ok: false, error: "track is required" };
+
+  const artists = optionalText(body.artists, "artists");
+  if (!artists.ok) return artists;
+  const album = optionalText(body.album, "album");
+  if (!album.ok) return album;
+  const albumImageUrl = optionalHttpsUrl(body.albumImageUrl, "albumImageUrl");
+  if (!albumImageUrl.ok) return albumImageUrl;
+  const trackUrl = optionalHttpsUrl(body.trackUrl, "trackUrl");
+  if (!trackUrl.ok) return trackUrl;
+
+  const { durationMs } = body;
+  if (
+    durationMs !== undefined &&
+    durationMs !== null &&
+    (typeof durationMs !== "number" || !Number.isFinite(durationMs) || durationMs <= 0 || durationMs > MAX_DURATION_MS)
+  ) {
+    return { ok: false, error: "durationMs must be a positive number of milliseconds, at most 3 hours" };
+  }
+
+  return {
+    ok: true,
+    value: {
+      track: track.value,
+      artists: artists.value,
+      album: album.value,
+      albumImageUrl: albumImageUrl.value,
+      trackUrl: trackUrl.value,
+      durationMs: typeof durationMs === "number" ? Math.round(durationMs) : undefined,
+    },
+  };
+};
+
+// The active entry, or null once it has expired.
+export const getManualTrack = async () => {
+  const entry = await readJson<ManualTrack | null>(STORE_KEY, null);
+  if (!entry || Date.parse(entry.expiresAt) <= Date.now()) return null;
+  return entry;
+};
+
+export const setManualTrack = async (input: ManualTrackInput, setBy: string) => {
+  const now = Date.now();
+  const entry: ManualTrack = {
+    ...input,
+    startedAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + (input.durationMs ?? DEFAULT_TTL_MS)).toISOString(),
+    setBy,
+  };
+  await writeJson(STORE_KEY, entry);
+  return entry;
+};
+
+export const clearManualTrack = () => writeJson(STORE_KEY, null);
+
+export const createManualProvider = (): NowPlayingProvider => ({
+  name: "manual",
+  isConfigured: async () => (await getManualTrack()) !== null,
+  fetchNowPlaying: async () => {
+    const entry = await getManualTrack();
+    const now = Date.now();
+    if (!entry) return { isPlaying: false, lastUpdated: new Date(now).toISOString(), source: "manual" };
+
+    const elapsed = now - Date.parse(entry.startedAt);
+    return {
+      isPlaying: true,
+      currentlyPlayingType: "track",
+      track: entry.track,
+      artists: entry.artists,
+      album: entry.album,
+      albumImageUrl: entry.albumImageUrl,
+      trackUrl: entry.trackUrl,
+      durationMs: entry.durationMs,
+      progressMs: entry.durationMs ? Math.min(elapsed, entry.durationMs) : undefined,
+      lastUpdated: new Date(now).toISOString(),
+      source: "manual",
+      refs: { artistNames: entry.artists ? [entry.artists] : [] }, // typed as one credit, commas and all
+    };
+  },
+});
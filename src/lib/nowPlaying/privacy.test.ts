@@ -0,0 +1,238 @@
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  addBlockRule,
+  applyNowPlayingPrivacy,
+  filterRecentTracks,
+  findBlockRule,
+  getNowPlayingPrivacy,
+  parseBlockRuleInput,
+  parsePauseInput,
+  pauseBroadcasting,
+  resumeBroadcasting,
+} from "./privacy";
+import type { BlockRule, NowPlayingPrivacy } from "./privacy";
+import type { PlaybackPayload, RecentTrack } from "./types";
+
+const ARTIST_URI = "spotify:artist:4Z8W4fKeB5YxbusRsdQVPb";
+
+const rule = (overrides: Partial<BlockRule>): BlockRule => ({
+  id: "r1",
+  kind: "artist",
+  label: "",
+  behaviour: "mask",
+  addedAt: "2026-10-01T00:00:00Z",
+  addedBy: "admin",
+  ...overrides,
+});
+
+const privacy = (overrides: Partial<NowPlayingPrivacy> = {}): NowPlayingPrivacy => ({
+  pause: null,
+  pastPauses: [],
+  rules: [],
+  ...overrides,
+});
+
+const playing: PlaybackPayload = {
+  isPlaying: true,
+  trackId: "abc",
+  track: "Idioteque",
+  artists: "Radiohead",
+  album: "Kid A",
+  lastUpdated: "2026-10-01T12:00:00Z",
+  source: "spotify",
+  refs: { trackUri: "spotify:track:abc", artistUris: [ARTIST_URI], artistNames: ["Radiohead"] },
+};
+
+const played = (playedAt: string, overrides: Partial<RecentTrack> = {}): RecentTrack => ({
+  trackId: "abc",
+  track: "Idioteque",
+  artists: "Radiohead",
+  playedAt,
+  ...overrides,
+});
+
+describe("parseBlockRuleInput", () => {
+  it("turns Spotify links into URIs", () => {
+    expect(
+      parseBlockRuleInput({ kind: "artist", value: "https://open.spotify.com/intl-de/artist/4Z8W4fKeB5YxbusRsdQVPb?si=x" })
+    ).toEqual({
+      ok: true,
+      value: {
+        kind: "artist",
+        uri: ARTIST_URI,
+        label: "https://open.spotify.com/intl-de/artist/4Z8W4fKeB5YxbusRsdQVPb?si=x",
+        behaviour: "mask",
+      },
+    });
+  });
+
+  it("matches by lower-cased name when given plain text", () => {
+    expect(parseBlockRuleInput({ kind: "track", value: " Idioteque ", behaviour: "skip" })).toEqual({
+      ok: true,
+      value: { kind: "track", name: "idioteque", label: "Idioteque", behaviour: "skip" },
+    });
+  });
+
+  it("rejects links of the wrong type and context rules without a link", () => {
+    expect(parseBlockRuleInput({ kind: "track", value: ARTIST_URI }).ok).toBe(false);
+    expect(parseBlockRuleInput({ kind: "context", value: "Gym mix" }).ok).toBe(false);
+    expect(parseBlockRuleInput({ kind: "context", value: "spotify:playlist:37i9dQZF1DX" }).ok).toBe(true);
+  });
+
+  it("rejects bad kinds, behaviours and values", () => {
+    expect(parseBlockRuleInput({ kind: "genre", value: "jazz" }).ok).toBe(false);
+    expect(parseBlockRuleInput({ kind: "artist", value: "x", behaviour: "blur" }).ok).toBe(false);
+    expect(parseBlockRuleInput({ kind: "artist", value: "  " }).ok).toBe(false);
+    expect(parseBlockRuleInput(null).ok).toBe(false);
+  });
+});
+
+describe("parsePauseInput", () => {
+  it("accepts up to a week of minutes", () => {
+    expect(parsePauseInput({ minutes: 60 })).toEqual({ ok: true, value: 60 });
+    expect(parsePauseInput({ minutes: 0.2 })).toEqual({ ok: true, value: 1 });
+    expect(parsePauseInput({ minutes: 7 * 24 * 60 + 1 }).ok).toBe(false);
+    expect(parsePauseInput({ minutes: 0 }).ok).toBe(false);
+    expect(parsePauseInput({ minutes: "60" }).ok).toBe(false);
+  });
+});
+
+describe("findBlockRule", () => {
+  it("matches URIs exactly and names case-insensitively", () => {
+    const byUri = rule({ uri: ARTIST_URI });
+    const byName = rule({ id: "r2", name: "radiohead" });
+    expect(findBlockRule([byUri], { artistUris: [ARTIST_URI] })).toBe(byUri);
+    expect(findBlockRule([byUri], { artistNames: ["Radiohead"] })).toBeNull();
+    expect(findBlockRule([byName], { artistNames: ["Thom Yorke", "RADIOHEAD"] })).toBe(byName);
+  });
+
+  it("returns the first matching rule", () => {
+    const skip = rule({ id: "skip", name: "kid a", kind: "album", behaviour: "skip" });
+    const mask = rule({ id: "mask", uri: ARTIST_URI });
+    expect(findBlockRule([skip, mask], { album: "Kid A", artistUris: [ARTIST_URI] })).toBe(skip);
+  });
+
+  it("never matches a context rule by name", () => {
+    expect(findBlockRule([rule({ kind: "context", name: "gym" })], { track: "gym" })).toBeNull();
+  });
+});
+
+describe("applyNowPlayingPrivacy", () => {
+  it("strips refs from what visitors see", () => {
+    const visible = applyNowPlayingPrivacy(playing, privacy());
+    expect(visible).not.toHaveProperty("refs");
+    expect(visible.track).toBe("Idioteque");
+  });
+
+  it("masks a blocked track but still shows that something plays", () => {
+    expect(applyNowPlayingPrivacy(playing, privacy({ rules: [rule({ uri: ARTIST_URI })] }))).toEqual({
+      isPlaying: true,
+      privacy: "hidden",
+      lastUpdated: playing.lastUpdated,
+      source: "spotify",
+    });
+  });
+
+  it("reports nothing for a skipped track", () => {
+    expect(applyNowPlayingPrivacy(playing, privacy({ rules: [rule({ uri: ARTIST_URI, behaviour: "skip" })] }))).toEqual({
+      isPlaying: false,
+      lastUpdated: playing.lastUpdated,
+      source: "spotify",
+    });
+  });
+
+  it("replaces everything while paused", () => {
+    const paused = privacy({ pause: { from: "2026-10-01T11:00:00Z", until: "2026-10-01T13:00:00Z", setBy: "admin" } });
+    expect(applyNowPlayingPrivacy(playing, paused)).toEqual({
+      isPlaying: false,
+      privacy: "paused",
+      lastUpdated: playing.lastUpdated,
+      source: "spotify",
+    });
+  });
+});
+
+describe("filterRecentTracks", () => {
+  it("drops plays from inside current and past pauses", () => {
+    const tracks = [played("2026-10-01T09:30:00Z"), played("2026-10-01T10:30:00Z"), played("2026-10-01T12:30:00Z")];
+    const visible = filterRecentTracks(
+      tracks,
+      privacy({
+        pastPauses: [{ from: "2026-10-01T09:00:00Z", until: "2026-10-01T10:00:00Z" }],
+        pause: { from: "2026-10-01T12:00:00Z", until: "2026-10-01T13:00:00Z", setBy: "admin" },
+      })
+    );
+    expect(visible.map((track) => track.playedAt)).toEqual(["2026-10-01T10:30:00Z"]);
+  });
+
+  it("drops blocked tracks whatever their behaviour, and strips refs", () => {
+    const tracks = [
+      played("2026-10-01T09:00:00Z", { refs: { artistUris: [ARTIST_URI] } }),
+      played("2026-10-01T10:00:00Z", { track: "Teardrop", artists: "Massive Attack", trackId: "def" }),
+    ];
+    const visible = filterRecentTracks(tracks, privacy({ rules: [rule({ uri: ARTIST_URI })] }));
+    expect(visible).toEqual([
+      { trackId: "def", track: "Teardrop", artists: "Massive Attack", playedAt: "2026-10-01T10:00:00Z" },
+    ]);
+  });
+
+  it("derives the track URI for plays stored without refs", () => {
+    const visible = filterRecentTracks(
+      [played("2026-10-01T09:00:00Z")],
+      privacy({ rules: [rule({ kind: "track", uri: "spotify:track:abc" })] })
+    );
+    expect(visible).toEqual([]);
+  });
+});
+
+describe("stored privacy settings", () => {
+  let dataDir: string;
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), "privacy-test-"));
+    vi.stubEnv("DATA_DIR", dataDir);
+    vi.useFakeTimers({ now: new Date("2026-10-01T12:00:00Z"), toFake: ["Date"] });
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  it("keeps a resumed pause so its plays stay hidden", async () => {
+    await pauseBroadcasting(60, "admin");
+    vi.setSystemTime(new Date("2026-10-01T12:20:00Z"));
+    await resumeBroadcasting();
+    expect(await getNowPlayingPrivacy()).toMatchObject({
+      pause: null,
+      pastPauses: [{ from: "2026-10-01T12:00:00.000Z", until: "2026-10-01T12:20:00.000Z" }],
+    });
+  });
+
+  it("keeps the original start when a pause is extended", async () => {
+    await pauseBroadcasting(60, "admin");
+    vi.setSystemTime(new Date("2026-10-01T12:30:00Z"));
+    await pauseBroadcasting(60, "admin");
+    expect((await getNowPlayingPrivacy()).pause).toMatchObject({
+      from: "2026-10-01T12:00:00.000Z",
+      until: "2026-10-01T13:30:00.000Z",
+    });
+  });
+
+  it("moves an expired pause into the past", async () => {
+    await pauseBroadcasting(10, "admin");
+    vi.setSystemTime(new Date("2026-10-01T12:11:00Z"));
+    expect(await getNowPlayingPrivacy()).toMatchObject({ pause: null, pastPauses: [{ until: "2026-10-01T12:10:00.000Z" }] });
+  });
+
+  it("replaces a duplicate rule rather than adding a second", async () => {
+    await addBlockRule({ kind: "artist", uri: ARTIST_URI, label: "a", behaviour: "mask" }, "admin");
+    await addBlockRule({ kind: "artist", uri: ARTIST_URI, label: "b", behaviour: "skip" }, "admin");
+    const { rules } = await getNowPlayingPrivacy();
+    expect(rules).toHaveLength(1);
+    expect(rules[0]).toMatchObject({ label: "b", behaviour: "skip" });
+  });
+});
@@ -0,0 +1,232 @@
+import crypto from "crypto";
+import { readJson, updateJson } from "@/lib/store";
+import type { PlaybackPayload, PlaybackRefs, RecentTrack } from "./types";
+
+export type BlockKind = "artist" | "track" | "album" | "context";
+
+// "mask" keeps the card showing that something is playing, as "Something private"; "skip" reports nothing.
+export type BlockBehaviour = "mask" | "skip";
+
+export type BlockRule = {
+  id: string;
+  kind: BlockKind;
+  uri?: string; // exact Spotify URI, e.g. spotify:artist:4Z8W4fKeB5YxbusRsdQVPb
+  name?: string; // lowercased name, for sources without Spotify URIs
+  label: string; // what the admin typed, for display
+  behaviour: BlockBehaviour;
+  addedAt: string;
+  addedBy: string;
+};
+
+export type BlockRuleInput = Pick<BlockRule, "kind" | "uri" | "name" | "label" | "behaviour">;
+
+type PauseWindow = { from: string; until: string };
+
+export type NowPlayingPrivacy = {
+  pause: (PauseWindow & { setBy: string }) | null;
+  // Ended pauses, kept so plays from them stay out of recently-played.
+  pastPauses: PauseWindow[];
+  rules: BlockRule[];
+};
+
+// What the name, track, album and artists of a play look like to the matcher.
+export type PrivacySubject = PlaybackRefs & {
+  track?: string;
+  album?: string;
+  artists?: string[];
+};
+
+const STORE_KEY = "now-playing-privacy";
+const MAX_RULES = 200;
+const MAX_LABEL_LENGTH = 200;
+const MAX_PAUSE_MINUTES = 7 * 24 * 60;
+const PAST_PAUSE_RETENTION_MS = 90 * 24 * 60 * 60 * 1000; // matches the longest history anything shows
+
+const EMPTY: NowPlayingPrivacy = { pause: null, pastPauses: [], rules: [] };
+
+// Which Spotify URI types each rule kind accepts; shows count as artists and albums for episodes.
+const URI_TYPES: Record<BlockKind, string[]> = {
+  track: ["track", "episode"],
+  artist: ["artist", "show"],
+  album: ["album", "show"],
+  context: ["playlist", "album", "artist", "show"],
+};
+
+// Accepts spotify:<type>:<id> URIs and open.spotify.com links (with or without an intl-xx segment).
+const parseSpotifyUri = (value: string) => {
+  const uri = /^spotify:([a-z]+):([A-Za-z0-9]+)$/.exec(value);
+  if (uri) return { type: uri[1], id: uri[2] };
+  try {
+    const url = new URL(value);
+    if (url.hostname !== "open.spotify.com") return null;
+    const segments = url.pathname.split("/").filter((segment) => segment && !segment.startsWith("intl-"));
+    if (segments.length < 2 || !/^[A-Za-z0-9]+$/.test(segments[1])) return null;
+    return { type: segments[0], id: segments[1] };
+  } catch {
+    return null;
+  }
+};
+
+export const parsePauseInput = (input: unknown): { ok: true; value: number } | { ok: false; error: string } => {
+  if (!input || typeof input !== "object") return { ok: false, error: "Expected an object body" };
+  const { minutes } = input as { minutes?: unknown };
+  if (typeof minutes !== "number" || !Number.isFinite(minutes) || minutes <= 0 || minutes > MAX_PAUSE_MINUTES) {
+    return { ok: false, error: `minutes must be a positive number, at most ${MAX_PAUSE_MINUTES} (7 days)` };
+  }
+  return { ok: true, value: Math.round(minutes) || 1 };
+};
+
+export const parseBlockRuleInput = (
+  input: unknown
+): { ok: true; value: BlockRuleInput } | { ok: false; error: string } => {
+  if (!input || typeof input !== "object") return { ok: false, error: "Expected an object body" };
+  const { kind, value, behaviour } = input as { kind?: unknown; value?: unknown; behaviour?: unknown };
+
+  if (kind !== "artist" && kind !== "track" && kind !== "album" && kind !== "context") {
+    return { ok: false, error: "kind must be one of artist, track, album, context" };
+  }
+  if (behaviour !== undefined && behaviour !== "mask" && behaviour !== "skip") {
+    return { ok: false, error: "behaviour must be mask or skip" };
+  }
+  if (typeof value !== "string" || !value.trim()) return { ok: false, error: "value is required" };
+  const label = value.trim().slice(0, MAX_LABEL_LENGTH);
+
+  const spotify = parseSpotifyUri(label);
+  if (spotify) {
+    if (!URI_TYPES[kind].includes(spotify.type)) {
+      return { ok: false, error: `A ${kind} rule can't use a Spotify ${spotify.type} link` };
+    }
+    return {
+      ok: true,
+      value: { kind, uri: `spotify:${spotify.type}:${spotify.id}`, label, behaviour: behaviour ?? "mask" },
+    };
+  }
+
+  // Spotify doesn't name the context it reports, so only a link can identify a playlist.
+  if (kind === "context") return { ok: false, error: "Context rules need a Spotify link or URI" };
+  return { ok: true, value: { kind, name: label.toLowerCase(), label, behaviour: behaviour ?? "mask" } };
+};
+
+const isActive = (pause: NowPlayingPrivacy["pause"], now = Date.now()) =>
+  pause !== null && Date.parse(pause.until) > now;
+
+// Moves an expired pause into pastPauses and drops old ones.
+const normalize = (privacy: NowPlayingPrivacy, now = Date.now()): NowPlayingPrivacy => {
+  const cutoff = now - PAST_PAUSE_RETENTION_MS;
+  const ended = privacy.pause && !isActive(privacy.pause, now) ? [{ from: privacy.pause.from, until: privacy.pause.until }] : [];
+  return {
+    pause: isActive(privacy.pause, now) ? privacy.pause : null,
+    pastPauses: [...privacy.pastPauses, ...ended].filter((window) => Date.parse(window.until) >= cutoff),
+    rules: privacy.rules,
+  };
+};
+
+export const getNowPlayingPrivacy = async () => normalize(await readJson<NowPlayingPrivacy>(STORE_KEY, EMPTY));
+
+export const pauseBroadcasting = (minutes: number, setBy: string) =>
+  updateJson<NowPlayingPrivacy>(STORE_KEY, EMPTY, (current) => {
+    const now = Date.now();
+    const privacy = normalize(current, now);
+    // Extending a pause keeps its start, so history from the whole private stretch stays hidden.
+    const from = privacy.pause?.from ?? new Date(now).toISOString();
+    return { ...privacy, pause: { from, until: new Date(now + minutes * 60_000).toISOString(), setBy } };
+  });
+
+export const resumeBroadcasting = () =>
+  updateJson<NowPlayingPrivacy>(STORE_KEY, EMPTY, (current) => {
+    const now = Date.now();
+    const privacy = normalize(current, now);
+    if (!privacy.pause) return privacy;
+    return {
+      ...privacy,
+      pause: null,
+      pastPauses: [...privacy.pastPauses, { from: privacy.pause.from, until: new Date(now).toISOString() }],
+    };
+  });
+
+export const addBlockRule = (input: BlockRuleInput, addedBy: string) =>
+  updateJson<NowPlayingPrivacy>(STORE_KEY, EMPTY, (current) => {
+    const privacy = normalize(current);
+    const rest = privacy.rules.filter(
+      (rule) => !(rule.kind === input.kind && rule.uri === input.uri && rule.name === input.name)
+    );
+    if (rest.length >= MAX_RULES) throw new Error(`At most ${MAX_RULES} block rules are allowed`);
+    const rule: BlockRule = {
+      ...input,
+      id: crypto.randomBytes(8).toString("hex"),
+      addedAt: new Date().toISOString(),
+      addedBy,
+    };
+    return { ...privacy, rules: [...rest, rule] };
+  });
+
+export const removeBlockRule = (id: string) =>
+  updateJson<NowPlayingPrivacy>(STORE_KEY, EMPTY, (current) => {
+    const privacy = normalize(current);
+    return { ...privacy, rules: privacy.rules.filter((rule) => rule.id !== id) };
+  });
+
+const candidatesFor = (kind: BlockKind, subject: PrivacySubject) => {
+  switch (kind) {
+    case "track":
+      return { uris: [subject.trackUri], names: [subject.track] };
+    case "artist":
+      return { uris: subject.artistUris ?? [], names: subject.artistNames ?? subject.artists ?? [] };
+    case "album":
+      return { uris: [subject.albumUri], names: [subject.album] };
+    case "context":
+      return { uris: [subject.contextUri], names: [] };
+  }
+};
+
+// The first rule that matches, so a "skip" listed before a "mask" wins.
+export const findBlockRule = (rules: BlockRule[], subject: PrivacySubject) =>
+  rules.find((rule) => {
+    const { uris, names } = candidatesFor(rule.kind, subject);
+    if (rule.uri) return uris.includes(rule.uri);
+    return names.some((name) => name?.toLowerCase() === rule.name);
+  }) ?? null;
+
+const subjectOf = (item: PlaybackPayload | RecentTrack): PrivacySubject => ({
+  ...item.refs,
+  // Entries stored before refs were kept only have the id.
+  trackUri: item.refs?.trackUri ?? (item.trackId ? `spotify:track:${item.trackId}` : undefined),
+  track: item.track,
+  album: item.album ?? ("show" in item ? item.show : undefined),
+  // Providers fill refs.artistNames; the joined display string is only a fallback, never split again.
+  artists: item.artists ? [item.artists] : undefined,
+});
+
+const withoutRefs = <T extends { refs?: PlaybackRefs }>(item: T): Omit<T, "refs"> => {
+  const copy = { ...item };
+  delete copy.refs;
+  return copy;
+};
+
+// The payload as visitors may see it: refs removed, and everything replaced while paused or blocked.
+export const applyNowPlayingPrivacy = (payload: PlaybackPayload, privacy: NowPlayingPrivacy): PlaybackPayload => {
+  const { lastUpdated, source } = payload;
+  if (privacy.pause) return { isPlaying: false, privacy: "paused", lastUpdated, source };
+  if (!payload.track) return withoutRefs(payload);
+
+  const rule = findBlockRule(privacy.rules, subjectOf(payload));
+  if (!rule) return withoutRefs(payload);
+  if (rule.behaviour === "skip") return { isPlaying: false, lastUpdated, source };
+  return { isPlaying: payload.isPlaying, privacy: "hidden", lastUpdated, source };
+};
+
+// History drops blocked tracks whatever their behaviour, and anything played during a pause.
+export const filterRecentTracks = (tracks: RecentTrack[], privacy: NowPlayingPrivacy) => {
+  const windows = [...privacy.pastPauses, ...(privacy.pause ? [privacy.pause] : [])].map((window) => ({
+    from: Date.parse(window.from),
+    until: Date.parse(window.until),
+  }));
+
+  return tracks
+    .filter((track) => {
+      const playedAt = Date.parse(track.playedAt);
+      if (windows.some((window) => playedAt >= window.from && playedAt <= window.until)) return false;
+      return findBlockRule(privacy.rules, subjectOf(track)) === null;
+    })
+    .map(withoutRefs);
+};
@@ -0,0 +1,324 @@
+import {
+  clearSpotifyConnectionError,
+  getSpotifyClientCredentials,
+  getSpotifyConnection,
+  markSpotifyConnectionError,
+  updateSpotifyRefreshToken,
+} from "@/lib/spotifyConnection";
+import { PlaybackError, playbackErrorFromResponse } from "./errors";
+import type { NowPlayingProvider, PlaybackItemType, PlaybackPayload, PlaybackRefs, RecentTrack } from "./types";
+
+type SpotifyTrack = {
+  id?: string;
+  uri?: string;
+  name: string;
+  duration_ms: number;
+  external_urls?: { spotify?: string };
+  album?: {
+    name?: string;
+    uri?: string;
+    images?: SpotifyImage[];
+  };
+  artists?: { name?: string; uri?: string }[];
+};
+
+type SpotifyImage = { url: string; width: number; height: number };
+
+type SpotifyEpisode = {
+  type: "episode";
+  id?: string;
+  uri?: string;
+  name: string;
+  duration_ms: number;
+  external_urls?: { spotify?: string };
+  images?: SpotifyImage[];
+  show?: {
+    name?: string;
+    uri?: string;
+    publisher?: string;
+    images?: SpotifyImage[];
+  };
+};
+
+type SpotifyContext = { type?: string; uri?: string } | null;
+
+type SpotifyCurrentlyPlaying = {
+  is_playing: boolean;
+  context?: SpotifyContext;
+  progress_ms: number | null;
+  currently_playing_type?: PlaybackItemType;
+  // Episodes only appear when the request includes additional_types=episode; ads never have an item.
+  item: (SpotifyTrack & { type?: "track" }) | SpotifyEpisode | null;
+};
+
+type SpotifyRecentlyPlayed = {
+  items: { track: SpotifyTrack; played_at: string; context?: SpotifyContext }[];
+};
+
+const TOKEN_URL = "https://accounts.spotify.com/api/token";
+const NOW_PLAYING_URL = "https://api.spotify.com/v1/me/player/currently-playing";
+const RECENTLY_PLAYED_URL = "https://api.spotify.com/v1/me/player/recently-played";
+const TOKEN_EXPIRY_BUFFER_MS = 60_000; // refresh a minute before Spotify expires the token
+const RECENTLY_PLAYED_MAX = 50; // Spotify rejects larger limits
+
+// Keyed by the refresh token it came from, so reconnecting a different account invalidates it.
+const tokenCache: { accessToken: string | null; refreshToken: string | null; expiresAt: number } = {
+  accessToken: null,
+  refreshToken: null,
+  expiresAt: 0,
+};
+
+// The refresh in flight, so concurrent callers share one token request instead of racing.
+let tokenRefresh: Promise<string> | null = null;
+
+// Network failures (DNS, resets, timeouts) are transient, like a 5xx.
+const request = (url: string | URL, init: RequestInit) =>
+  fetch(url, init).catch((error: unknown) => {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    throw new PlaybackError("upstream_unavailable", `Spotify request failed: ${message}`);
+  });
+
+// A connection made from /admin takes precedence over SPOTIFY_REFRESH_TOKEN, which remains a fallback.
+const getCredentials = async () => {
+  const { clientId, clientSecret } = getSpotifyClientCredentials();
+  const connection = await getSpotifyConnection();
+  const refreshToken = connection?.refreshToken ?? process.env.SPOTIFY_REFRESH_TOKEN;
+
+  if (!refreshToken) {
+    throw new PlaybackError(
+      "not_configured",
+      "Spotify is not connected. Connect it from /admin or set SPOTIFY_REFRESH_TOKEN."
+    );
+  }
+
+  return { clientId, clientSecret, refreshToken, connection };
+};
+
+const fetchAccessToken = async () => {
+  const credentials = await getCredentials();
+
+  if (
+    tokenCache.accessToken &&
+    tokenCache.refreshToken === credentials.refreshToken &&
+    tokenCache.expiresAt > Date.now() + TOKEN_EXPIRY_BUFFER_MS
+  ) {
+    return tokenCache.accessToken;
+  }
+
+  tokenRefresh ??= refreshAccessToken(credentials).finally(() => {
+    tokenRefresh = null;
+  });
+  return tokenRefresh;
+};
+
+const refreshAccessToken = async ({
+  clientId,
+  clientSecret,
+  refreshToken,
+  connection,
+}: Awaited<ReturnType<typeof getCredentials>>) => {
+  const res = await request(TOKEN_URL, {
+    method: "POST",
+    headers: {
+      Authorization: `Basic ${Buffer.from(`${clientId}:${clientSecret}`).toString("base64")}`,
+      "Content-Type": "application/x-www-form-urlencoded",
+    },
+    body: new URLSearchParams({
+      grant_type: "refresh_token",
+      refresh_token: refreshToken,
+    }),
+    cache: "no-store",
+  });
+
+  if (!res.ok) {
+    const errorBody = await res.text();
+    const message = `Failed to refresh Spotify token: ${res.status} ${errorBody.slice(0, 200)}`;
+    // 400 invalid_grant means the token was revoked; surface it in /admin so someone reconnects.
+    if (res.status === 400) {
+      if (connection) await markSpotifyConnectionError(message);
+      throw new PlaybackError("auth_failed", message);
+    }
+    throw playbackErrorFromResponse(res, message);
+  }
+
+  const body = (await res.json()) as { access_token?: string; expires_in?: number; refresh_token?: string };
+  if (!body.access_token || typeof body.expires_in !== "number") {
+    throw new PlaybackError("upstream_error", "Unexpected token response from Spotify");
+  }
+
+  if (connection && body.refresh_token && body.refresh_token !== refreshToken) {
+    await updateSpotifyRefreshToken(body.refresh_token);
+  } else if (connection?.lastError) {
+    await clearSpotifyConnectionError();
+  }
+
+  tokenCache.accessToken = body.access_token;
+  tokenCache.refreshToken = connection && body.refresh_token ? body.refresh_token : refreshToken;
+  tokenCache.expiresAt = Date.now() + body.expires_in * 1000;
+  return tokenCache.accessToken;
+};
+
+const pickAlbumImage = (images: SpotifyImage[] | undefined) => {
+  if (!images || images.length === 0) return undefined;
+  // Prefer a mid-sized square image to keep payload light.
+  const sorted = [...images].sort((a, b) => (a.width || 0) - (b.width || 0));
+  const targetWidth = 320;
+  let best = sorted[0];
+  for (const img of sorted) {
+    if (Math.abs((img.width || targetWidth) - targetWidth) < Math.abs((best.width || targetWidth) - targetWidth)) {
+      best = img;
+    }
+  }
+  return best.url;
+};
+
+const joinArtists = (item: SpotifyTrack) => item.artists?.map((a) => a.name).filter(Boolean).join(", ");
+
+const compact = <T>(values: (T | undefined)[]) => values.filter((value): value is T => Boolean(value));
+
+const trackRefs = (item: SpotifyTrack, context: SpotifyContext | undefined): PlaybackRefs => ({
+  trackUri: item.uri,
+  artistUris: compact((item.artists ?? []).map((a) => a.uri)),
+  artistNames: compact((item.artists ?? []).map((a) => a.name)),
+  albumUri: item.album?.uri,
+  contextUri: context?.uri,
+});
+
+const fetchNowPlaying = async (retry = true): Promise<PlaybackPayload> => {
+  const accessToken = await fetchAccessToken();
+
+  const url = new URL(NOW_PLAYING_URL);
+  url.searchParams.set("additional_types", "track,episode");
+  const res = await request(url, {
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+    },
+    cache: "no-store",
+  });
+
+  if (res.status === 204) {
+    return {
+      isPlaying: false,
+      lastUpdated: new Date().toISOString(),
+      source: "spotify",
+    };
+  }
+
+  if (res.status === 401 && retry) {
+    // Token likely expired before buffer; clear cache and retry once.
+    tokenCache.accessToken = null;
+    tokenCache.expiresAt = 0;
+    return fetchNowPlaying(false);
+  }
+
+  if (!res.ok) {
+    const errorBody = await res.text();
+    throw playbackErrorFromResponse(res, `Spotify now-playing failed: ${res.status} ${errorBody.slice(0, 200)}`);
+  }
+
+  const body = (await res.json()) as SpotifyCurrentlyPlaying;
+  const item = body.item;
+  const base = {
+    isPlaying: Boolean(body.is_playing),
+    currentlyPlayingType: body.currently_playing_type ?? (item?.type === "episode" ? "episode" : "track"),
+    progressMs: body.progress_ms ?? undefined,
+    lastUpdated: new Date().toISOString(),
+    source: "spotify" as const,
+  };
+
+  if (!item) {
+    // Ads and unknown items have no metadata, but something is playing.
+    if (base.currentlyPlayingType === "ad" || base.currentlyPlayingType === "unknown") return base;
+    return {
+      isPlaying: false,
+      lastUpdated: base.lastUpdated,
+      source: "spotify",
+    };
+  }
+
+  if (item.type === "episode") {
+    return {
+      ...base,
+      currentlyPlayingType: "episode",
+      trackId: item.id || undefined,
+      track: item.name,
+      show: item.show?.name || undefined,
+      publisher: item.show?.publisher || undefined,
+      albumImageUrl: pickAlbumImage(item.images?.length ? item.images : item.show?.images),
+      trackUrl: item.external_urls?.spotify,
+      durationMs: item.duration_ms,
+      // The show stands in for both artist and album when matching block rules.
+      refs: {
+        trackUri: item.uri,
+        artistUris: compact([item.show?.uri]),
+        artistNames: compact([item.show?.name]),
+        albumUri: item.show?.uri,
+        contextUri: body.context?.uri,
+      },
+    };
+  }
+
+  const artists = joinArtists(item);
+  const payload: PlaybackPayload = {
+    ...base,
+    trackId: item.id || undefined,
+    track: item.name,
+    artists: artists || undefined,
+    album: item.album?.name || undefined,
+    albumImageUrl: pickAlbumImage(item.album?.images),
+    trackUrl: item.external_urls?.spotify,
+    durationMs: item.duration_ms,
+    refs: trackRefs(item, body.context),
+  };
+
+  return payload;
+};
+
+// Needs the `user-read-recently-played` scope on the refresh token.
+const fetchRecentlyPlayed = async (limit: number, retry = true): Promise<RecentTrack[]> => {
+  const accessToken = await fetchAccessToken();
+
+  const url = new URL(RECENTLY_PLAYED_URL);
+  url.searchParams.set("limit", String(limit));
+  const res = await request(url, {
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+    },
+    cache: "no-store",
+  });
+
+  if (res.status === 401 && retry) {
+    tokenCache.accessToken = null;
+    tokenCache.expiresAt = 0;
+    return fetchRecentlyPlayed(limit, false);
+  }
+
+  if (!res.ok) {
+    const errorBody = await res.text();
+    throw playbackErrorFromResponse(res, `Spotify recently-played failed: ${res.status} ${errorBody.slice(0, 200)}`);
+  }
+
+  const body = (await res.json()) as SpotifyRecentlyPlayed;
+  return (body.items ?? []).map(({ track, played_at, context }) => ({
+    trackId: track.id || undefined,
+    track: track.name,
+    artists: joinArtists(track) || undefined,
+    album: track.album?.name || undefined,
+    albumImageUrl: pickAlbumImage(track.album?.images),
+    trackUrl: track.external_urls?.spotify,
+    playedAt: played_at,
+    refs: trackRefs(track, context),
+  }));
+};
+
+const isConfigured = async () => {
+  if (!process.env.SPOTIFY_CLIENT_ID || !process.env.SPOTIFY_CLIENT_SECRET) return false;
+  return Boolean(process.env.SPOTIFY_REFRESH_TOKEN) || (await getSpotifyConnection()) !== null;
+};
+
+export const createSpotifyProvider = (): NowPlayingProvider => ({
+  name: "spotify",
+  isConfigured,
+  fetchNowPlaying: () => fetchNowPlaying(),
+  fetchRecentlyPlayed: (limit) => fetchRecentlyPlayed(Math.min(limit, RECENTLY_PLAYED_MAX)),
+});
@@ -0,0 +1,59 @@
+import type { AlbumPalette } from "@/lib/albumPalette";
+
+// Where a payload came from; also drives the badge on the now-playing card.
+export type PlaybackSource = "spotify" | "lastfm" | "manual";
+
+// Mirrors Spotify's `currently_playing_type`; other providers only ever report tracks.
+export type PlaybackItemType = "track" | "episode" | "ad" | "unknown";
+
+// Spotify URIs and per-artist names that privacy rules match against. Never sent to clients.
+export type PlaybackRefs = {
+  trackUri?: string;
+  artistUris?: string[];
+  artistNames?: string[];
+  albumUri?: string;
+  contextUri?: string; // the playlist, album, artist or show playback started from
+};
+
+export type PlaybackPayload = {
+  isPlaying: boolean;
+  // Set when the privacy settings replaced what's playing: "paused" while broadcasting is paused,
+  // "hidden" when a block rule masks the item.
+  privacy?: "paused" | "hidden";
+  currentlyPlayingType?: PlaybackItemType;
+  trackId?: string;
+  track?: string;
+  artists?: string;
+  album?: string;
+  show?: string; // episodes: the podcast, in place of artists/album
+  publisher?: string;
+  albumImageUrl?: string; // cover art, or the episode artwork
+  palette?: AlbumPalette; // colors extracted from albumImageUrl, when it could be loaded
+  trackUrl?: string;
+  durationMs?: number;
+  progressMs?: number;
+  lastUpdated: string;
+  source: PlaybackSource;
+  stale?: boolean; // upstream is failing or backing off; this is the last good payload
+  refs?: PlaybackRefs;
+};
+
+export type RecentTrack = {
+  trackId?: string;
+  track: string;
+  artists?: string;
+  album?: string;
+  albumImageUrl?: string;
+  trackUrl?: string;
+  playedAt: string;
+  refs?: PlaybackRefs;
+};
+
+export type NowPlayingProvider = {
+  name: PlaybackSource;
+  // False when the provider has no credentials (or, for manual, nothing set); the chain skips it quietly.
+  isConfigured: () => Promise<boolean>;
+  // Throw on provider failure; a bare `isPlaying: false` payload means "reachable, nothing playing".
+  fetchNowPlaying: () => Promise<PlaybackPayload>;
+  fetchRecentlyPlayed?: (limit: number) => Promise<RecentTrack[]>;
+};
@@ -0,0 +1,89 @@
+import { describePlaybackError, getNowPlaying, playbackPollIntervalMs } from "@/lib/nowPlaying";
+import type { PlaybackPayload } from "@/lib/nowPlaying";
+import { createSseChannel } from "@/lib/sse";
+
+// Event names a client subscribes to; every one carries the full playback payload.
+export const PLAYBACK_EVENTS = ["snapshot", "track", "pause", "resume", "seek"] as const;
+export type PlaybackEvent = (typeof PLAYBACK_EVENTS)[number];
+
+const SEEK_TOLERANCE_MS = 5_000;
+
+const state: {
+  latest: PlaybackPayload | null;
+  checkedAt: string | null;
+  error: string | null; // a PlaybackErrorCode, never the upstream message
+  timer: ReturnType<typeof setTimeout> | null;
+  running: boolean;
+  generation: number; // bumped on start and stop so a poll still in flight from an old run is ignored
+} = {
+  latest: null,
+  checkedAt: null,
+  error: null,
+  timer: null,
+  running: false,
+  generation: 0,
+};
+
+const trackKey = (payload: PlaybackPayload) =>
+  payload.trackId ?? payload.trackUrl ?? `${payload.track ?? ""}|${payload.artists ?? ""}`;
+
+const classify = (prev: PlaybackPayload | null, next: PlaybackPayload): PlaybackEvent | null => {
+  if (!prev || trackKey(prev) !== trackKey(next) || prev.privacy !== next.privacy) return "track";
+  if (prev.isPlaying !== next.isPlaying) return next.isPlaying ? "resume" : "pause";
+
+  if (next.isPlaying && typeof prev.progressMs === "number" && typeof next.progressMs === "number") {
+    const elapsed = Date.parse(next.lastUpdated) - Date.parse(prev.lastUpdated);
+    if (Math.abs(next.progressMs - (prev.progressMs + elapsed)) > SEEK_TOLERANCE_MS) return "seek";
+  }
+  return null;
+};
+
+const channel = createSseChannel({
+  heartbeatData: () => ({ checkedAt: state.checkedAt, error: state.error, stale: state.latest?.stale ?? false }),
+  onFirstSubscriber: () => startPoller(),
+  onLastUnsubscribe: () => stopPoller(),
+});
+
+const poll = async (generation: number) => {
+  try {
+    const next = await getNowPlaying();
+    if (generation !== state.generation) return;
+    const event = classify(state.latest, next);
+    state.latest = next;
+    state.error = null;
+    if (event) channel.publish(event, next);
+  } catch (error) {
+    if (generation !== state.generation) return;
+    const { code } = describePlaybackError(error);
+    // Logged when the failure changes rather than on every poll.
+    if (code !== state.error) console.warn("Now-playing poll failed", error);
+    state.error = code;
+  }
+  state.checkedAt = new Date().toISOString();
+
+  if (state.running) state.timer = setTimeout(() => poll(generation), playbackPollIntervalMs);
+};
+
+// One poller per process regardless of how many tabs are listening; it only runs while someone is.
+const startPoller = () => {
+  if (state.running) return;
+  state.running = true;
+  state.generation += 1;
+  poll(state.generation);
+};
+
+const stopPoller = () => {
+  state.running = false;
+  state.generation += 1;
+  if (state.timer) clearTimeout(state.timer);
+  state.timer = null;
+  // Forget the last payload so the next listener gets a fresh "track" rather than a stale snapshot.
+  state.latest = null;
+};
+
+export const subscribeNowPlaying = (lastEventId: string | null, signal: AbortSignal) =>
+  channel.connect({
+    lastEventId,
+    signal,
+    snapshot: () => (state.latest ? { event: "snapshot", data: state.latest } : null),
+  });
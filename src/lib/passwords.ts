@@ -0,0 +1,36 @@
+import crypto from "crypto";
+
+// Encoded as scrypt.<N>.<r>.<p>.<salt>.<hash> (base64url). Dots rather than "$" so the value can sit in
+// .env files without being mangled by variable expansion. Hashes are made by scripts/hash-admin-password.mjs
+// (`npm run hash-password`); keep the format in sync with it.
+const SCHEME = "scrypt";
+const KEY_LENGTH = 32;
+
+const scrypt = (password: string, salt: Buffer, params: { N: number; r: number; p: number }) =>
+  new Promise<Buffer>((resolve, reject) => {
+    crypto.scrypt(password, salt, KEY_LENGTH, { ...params, maxmem: 64 * 1024 * 1024 }, (error, key) => {
+      if (error) reject(error);
+      else resolve(key);
+    });
+  });
+
+// Hash first so neither the comparison time nor an early length mismatch reveals anything about the secret.
+export const constantTimeEquals = (a: string, b: string) => {
+  const digestA = crypto.createHash("sha256").update(a).digest();
+  const digestB = crypto.createHash("sha256").update(b).digest();
+  return crypto.timingSafeEqual(digestA, digestB);
+};
+
+export const isPasswordHash = (value: string) => value.startsWith(`${SCHEME}.`);
+
+export const verifyPassword = async (password: string, encoded: string) => {
+  const [scheme, n, r, p, salt, hash] = encoded.split(".");
+  if (scheme !== SCHEME || !salt || !hash) return false;
+
+  const params = { N: Number(n), r: Number(r), p: Number(p) };
+  if (!Object.values(params).every((v) => Number.isInteger(v) && v > 0)) return false;
+
+  const expected = Buffer.from(hash, "base64url");
+  const actual = await scrypt(password, Buffer.from(salt, "base64url"), params);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+};
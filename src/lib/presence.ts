@@ -0,0 +1,102 @@
+import crypto from "crypto";
+import { coarsenPoint } from "@/lib/locationPrivacy";
+import { createSseChannel } from "@/lib/sse";
+
+type Visitor = {
+  publicId: string; // what other visitors see; the session id itself is never broadcast
+  lat?: number;
+  lng?: number;
+  lastSeen: number;
+};
+
+export type PresenceSnapshot = {
+  count: number;
+  visitors: { id: string; lat: number; lng: number }[];
+};
+
+const HEARTBEAT_MS = 15_000; // clients heartbeat this often
+const EXPIRY_MS = 45_000; // three missed heartbeats and a visitor is gone
+const SWEEP_MS = 10_000;
+const PUBLISH_DEBOUNCE_MS = 1_000; // coalesces bursts of joins and leaves into one event
+const MAX_VISITORS = 2_000;
+const MAX_POINTS = 200; // more than this many dots just smears the globe
+const GRID_DEGREES = 1; // ~110 km cells; nobody's dot is more precise than their region
+
+const visitors = new Map<string, Visitor>();
+let sweepTimer: ReturnType<typeof setInterval> | null = null;
+let publishTimer: ReturnType<typeof setTimeout> | null = null;
+
+export const presenceHeartbeatMs = HEARTBEAT_MS;
+
+export const getPresenceSnapshot = (): PresenceSnapshot => ({
+  count: visitors.size,
+  visitors: [...visitors.values()]
+    .filter((visitor): visitor is Visitor & { lat: number; lng: number } => visitor.lat !== undefined && visitor.lng !== undefined)
+    .slice(0, MAX_POINTS)
+    .map(({ publicId, lat, lng }) => ({ id: publicId, lat, lng })),
+});
+
+const channel = createSseChannel({ replaySize: 1 });
+
+const schedulePublish = () => {
+  if (publishTimer) return;
+  publishTimer = setTimeout(() => {
+    publishTimer = null;
+    channel.publish("presence", getPresenceSnapshot());
+  }, PUBLISH_DEBOUNCE_MS);
+};
+
+const sweep = () => {
+  const cutoff = Date.now() - EXPIRY_MS;
+  let removed = false;
+  for (const [id, visitor] of visitors) {
+    if (visitor.lastSeen < cutoff) {
+      visitors.delete(id);
+      removed = true;
+    }
+  }
+  if (removed) schedulePublish();
+  if (visitors.size === 0 && sweepTimer) {
+    clearInterval(sweepTimer);
+    sweepTimer = null;
+  }
+};
+
+const publicIdFor = (sessionId: string) =>
+  crypto.createHash("sha256").update(`presence:${sessionId}`).digest("hex").slice(0, 12);
+
+// Refreshes an existing visitor, or registers a new one when there's no sessionId or the registry has
+// forgotten it (after a restart or a long sleep). `locate` only runs for new visitors, and its answer is
+// snapped to a grid before it's stored. Resolves to null when the registry is full.
+export const heartbeatPresence = async (
+  sessionId: string | null,
+  locate: () => Promise<{ lat: number; lng: number } | null>
+) => {
+  const existing = sessionId ? visitors.get(sessionId) : undefined;
+  if (existing) {
+    existing.lastSeen = Date.now();
+    return { sessionId: sessionId as string, publicId: existing.publicId };
+  }
+  if (visitors.size >= MAX_VISITORS) return null;
+
+  const location = await locate().catch(() => null);
+  const point = location ? coarsenPoint(location, { mode: "grid", gridDegrees: GRID_DEGREES, jitterKm: 0 }) : null;
+  const id = crypto.randomBytes(16).toString("hex");
+  const visitor: Visitor = { publicId: publicIdFor(id), lat: point?.lat, lng: point?.lng, lastSeen: Date.now() };
+  visitors.set(id, visitor);
+
+  sweepTimer ??= setInterval(sweep, SWEEP_MS);
+  schedulePublish();
+  return { sessionId: id, publicId: visitor.publicId };
+};
+
+export const leavePresence = (sessionId: string) => {
+  if (visitors.delete(sessionId)) schedulePublish();
+};
+
+export const subscribePresence = (lastEventId: string | null, signal: AbortSignal) =>
+  channel.connect({
+    lastEventId,
+    signal,
+    snapshot: () => ({ event: "presence", data: getPresenceSnapshot() }),
+  });
@@ -0,0 +1,36 @@
+import { createLruCache } from "@/lib/lruCache";
+
+type Window = { count: number; resetAt: number };
+
+export type RateLimitResult = { allowed: true; remaining: number } | { allowed: false; retryAfterSeconds: number };
+
+// Fixed-window counter per key. Windows live in an LRU so a flood of distinct keys can't grow memory unbounded.
+export const createRateLimiter = ({
+  limit,
+  windowMs,
+  maxKeys = 10_000,
+}: {
+  limit: number;
+  windowMs: number;
+  maxKeys?: number;
+}) => {
+  const windows = createLruCache<Window>({ maxEntries: maxKeys, ttlMs: windowMs });
+
+  return (key: string): RateLimitResult => {
+    const now = Date.now();
+    const current = windows.get(key);
+
+    if (!current || current.resetAt <= now) {
+      windows.set(key, { count: 1, resetAt: now + windowMs });
+      return { allowed: true, remaining: limit - 1 };
+    }
+
+    if (current.count >= limit) {
+      return { allowed: false, retryAfterSeconds: Math.max(1, Math.ceil((current.resetAt - now) / 1000)) };
+    }
+
+    current.count += 1;
+    windows.set(key, current, current.resetAt - now);
+    return { allowed: true, remaining: limit - current.count };
+  };
+};
@@ -0,0 +1,40 @@
+import type { PlaybackPayload, RecentTrack } from "@/lib/nowPlaying";
+import { readJson, updateJson } from "@/lib/store";
+
+const STORE_KEY = "spotify-seen-tracks";
+const MAX_ENTRIES = 200;
+const REFRESH_INTERVAL_MS = 60_000; // while the same track keeps playing, bump playedAt at most this often
+
+let lastRecorded: { key: string; at: number } | null = null;
+
+const keyOf = (payload: { trackId?: string; trackUrl?: string; track?: string; artists?: string }) =>
+  payload.trackId ?? payload.trackUrl ?? `${payload.track ?? ""}|${payload.artists ?? ""}`;
+
+// Newest first. A track that keeps playing updates its entry rather than adding one per poll.
+export const recordSeenTrack = async (payload: PlaybackPayload) => {
+  if (!payload.isPlaying || !payload.track) return;
+
+  const key = keyOf(payload);
+  const now = Date.now();
+  if (lastRecorded?.key === key && now - lastRecorded.at < REFRESH_INTERVAL_MS) return;
+  lastRecorded = { key, at: now };
+
+  const entry: RecentTrack = {
+    trackId: payload.trackId,
+    track: payload.track,
+    artists: payload.artists ?? payload.show, // episodes list their podcast instead
+    album: payload.album,
+    albumImageUrl: payload.albumImageUrl,
+    trackUrl: payload.trackUrl,
+    playedAt: new Date(now).toISOString(),
+    // Kept so block rules added later still match this entry; filterRecentTracks strips them on the way out.
+    refs: payload.refs,
+  };
+
+  await updateJson<RecentTrack[]>(STORE_KEY, [], (tracks) => {
+    const rest = tracks[0] && keyOf(tracks[0]) === key ? tracks.slice(1) : tracks;
+    return [entry, ...rest].slice(0, MAX_ENTRIES);
+  });
+};
+
+export const readSeenTracks = () => readJson<RecentTrack[]>(STORE_KEY, []);
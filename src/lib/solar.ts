@@ -0,0 +1,73 @@
+type LatLng = { lat: number; lng: number };
+
+const toRad = (d: number) => (d * Math.PI) / 180;
+const toDeg = (r: number) => (r * 180) / Math.PI;
+const wrapLng = (lng: number) => ((((lng + 180) % 360) + 360) % 360) - 180;
+
+// Sun elevation at which it counts as set: the disc's radius plus average refraction at the horizon.
+export const SUNSET_ELEVATION = -0.833;
+// Below this the sky is dark enough to count as night (end of civil twilight).
+export const CIVIL_DUSK_ELEVATION = -6;
+
+// Point on Earth where the sun is directly overhead at `date`. Uses the low-precision solar
+// coordinates from the Astronomical Almanac, good to about 0.01° for decades either side of 2000,
+// which is far finer than anything the globe can show.
+export const subsolarPoint = (date: Date): LatLng => {
+  const days = date.getTime() / 86_400_000 - 10_957.5; // days since J2000.0 (2000-01-01 12:00 UTC)
+
+  const meanLongitude = 280.46 + 0.9856474 * days;
+  const meanAnomaly = toRad(357.528 + 0.9856003 * days);
+  const eclipticLongitude = toRad(meanLongitude + 1.915 * Math.sin(meanAnomaly) + 0.02 * Math.sin(2 * meanAnomaly));
+  const obliquity = toRad(23.439 - 0.0000004 * days);
+
+  const declination = Math.asin(Math.sin(obliquity) * Math.sin(eclipticLongitude));
+  const rightAscension = Math.atan2(Math.cos(obliquity) * Math.sin(eclipticLongitude), Math.cos(eclipticLongitude));
+
+  // Equation of time, in degrees of rotation: how far the real sun runs ahead of the mean sun.
+  const equationOfTime = wrapLng(meanLongitude - toDeg(rightAscension));
+  const utcHours = (date.getTime() % 86_400_000) / 3_600_000;
+
+  return { lat: toDeg(declination), lng: wrapLng(-15 * (utcHours - 12) - equationOfTime) };
+};
+
+// Angle of the sun above (positive) or below (negative) the horizon at `point`, in degrees.
+export const solarElevation = (point: LatLng, date: Date) => {
+  const sun = subsolarPoint(date);
+  const lat = toRad(point.lat);
+  const declination = toRad(sun.lat);
+  const hourAngle = toRad(point.lng - sun.lng);
+
+  return toDeg(
+    Math.asin(Math.sin(lat) * Math.sin(declination) + Math.cos(lat) * Math.cos(declination) * Math.cos(hourAngle))
+  );
+};
+
+export const isDaytime = (point: LatLng, date: Date) => solarElevation(point, date) > SUNSET_ELEVATION;
+
+// GeoJSON polygon covering everywhere the sun is below `elevation` degrees: a circle around the
+// antisolar point. Vertices run clockwise, which is how d3-geo (and so the globe's polygon layer)
+// tells the inside of a ring this large from its outside.
+export const darknessPolygon = (date: Date, elevation = SUNSET_ELEVATION, steps = 96) => {
+  const sun = subsolarPoint(date);
+  const centerLat = toRad(-sun.lat);
+  const centerLng = toRad(sun.lng + 180);
+  const radius = toRad(90 + elevation);
+
+  const ring: [number, number][] = [];
+  for (let i = 0; i < steps; i += 1) {
+    const bearing = (i / steps) * 2 * Math.PI;
+    const lat = Math.asin(
+      Math.sin(centerLat) * Math.cos(radius) + Math.cos(centerLat) * Math.sin(radius) * Math.cos(bearing)
+    );
+    const lng =
+      centerLng +
+      Math.atan2(
+        Math.sin(bearing) * Math.sin(radius) * Math.cos(centerLat),
+        Math.cos(radius) - Math.sin(centerLat) * Math.sin(lat)
+      );
+    ring.push([wrapLng(toDeg(lng)), toDeg(lat)]);
+  }
+  ring.push(ring[0]);
+
+  return { type: "Polygon" as const, coordinates: [ring] };
+};
@@ -0,0 +1,144 @@
+import { readJson, updateJson, writeJson } from "@/lib/store";
+
+export type SpotifyConnection = {
+  refreshToken: string;
+  accountId: string;
+  displayName?: string;
+  scopes: string[];
+  connectedAt: string;
+  connectedBy: string; // admin user id
+  lastError?: string; // set when Spotify rejects the refresh token, e.g. after the app was removed
+  lastErrorAt?: string;
+};
+
+const STORE_KEY = "spotify-connection";
+const STATE_COOKIE_NAME = "spotify_oauth_state";
+const AUTHORIZE_URL = "https://accounts.spotify.com/authorize";
+const TOKEN_URL = "https://accounts.spotify.com/api/token";
+const PROFILE_URL = "https://api.spotify.com/v1/me";
+
+export const SPOTIFY_SCOPES = [
+  "user-read-currently-playing",
+  "user-read-playback-state",
+  "user-read-recently-played",
+];
+
+export const getSpotifyClientCredentials = () => {
+  const clientId = process.env.SPOTIFY_CLIENT_ID;
+  const clientSecret = process.env.SPOTIFY_CLIENT_SECRET;
+  if (!clientId || !clientSecret) {
+    throw new Error("Missing one of SPOTIFY_CLIENT_ID, SPOTIFY_CLIENT_SECRET");
+  }
+  return { clientId, clientSecret };
+};
+
+const basicAuth = () => {
+  const { clientId, clientSecret } = getSpotifyClientCredentials();
+  return `Basic ${Buffer.from(`${clientId}:${clientSecret}`).toString("base64")}`;
+};
+
+export const getSpotifyConnection = () => readJson<SpotifyConnection | null>(STORE_KEY, null);
+
+export const clearSpotifyConnection = () => writeJson(STORE_KEY, null);
+
+// Spotify may hand back a new refresh token when refreshing; keep whichever is newest.
+export const updateSpotifyRefreshToken = (refreshToken: string) =>
+  updateJson<SpotifyConnection | null>(STORE_KEY, null, (current) =>
+    current ? { ...current, refreshToken, lastError: undefined, lastErrorAt: undefined } : current
+  );
+
+export const markSpotifyConnectionError = (message: string) =>
+  updateJson<SpotifyConnection | null>(STORE_KEY, null, (current) =>
+    current ? { ...current, lastError: message, lastErrorAt: new Date().toISOString() } : current
+  );
+
+export const clearSpotifyConnectionError = () =>
+  updateJson<SpotifyConnection | null>(STORE_KEY, null, (current) =>
+    current?.lastError ? { ...current, lastError: undefined, lastErrorAt: undefined } : current
+  );
+
+// SPOTIFY_REDIRECT_URI wins so deployments behind a proxy can pin the URI registered with Spotify.
+export const spotifyRedirectUri = (origin: string) =>
+  process.env.SPOTIFY_REDIRECT_URI || `${origin}/api/admin/spotify/callback`;
+
+export const buildSpotifyAuthorizeUrl = (state: string, redirectUri: string) => {
+  const { clientId } = getSpotifyClientCredentials();
+  const url = new URL(AUTHORIZE_URL);
+  url.searchParams.set("response_type", "code");
+  url.searchParams.set("client_id", clientId);
+  url.searchParams.set("scope", SPOTIFY_SCOPES.join(" "));
+  url.searchParams.set("redirect_uri", redirectUri);
+  url.searchParams.set("state", state);
+  return url.toString();
+};
+
+// Trades the authorization code for tokens, looks up the account and stores the connection.
+export const completeSpotifyAuthorization = async (code: string, redirectUri: string, adminUserId: string) => {
+  const tokenRes = await fetch(TOKEN_URL, {
+    method: "POST",
+    headers: {
+      Authorization: basicAuth(),
+      "Content-Type": "application/x-www-form-urlencoded",
+    },
+    body: new URLSearchParams({
+      grant_type: "authorization_code",
+      code,
+      redirect_uri: redirectUri,
+    }),
+    cache: "no-store",
+  });
+
+  if (!tokenRes.ok) {
+    const errorBody = await tokenRes.text();
+    throw new Error(`Spotify code exchange failed: ${tokenRes.status} ${errorBody.slice(0, 200)}`);
+  }
+
+  const tokens = (await tokenRes.json()) as { access_token?: string; refresh_token?: string; scope?: string };
+  if (!tokens.access_token || !tokens.refresh_token) {
+    throw new Error("Unexpected token response from Spotify");
+  }
+
+  const profileRes = await fetch(PROFILE_URL, {
+    headers: { Authorization: `Bearer ${tokens.access_token}` },
+    cache: "no-store",
+  });
+  if (!profileRes.ok) {
+    throw new Error(`Spotify profile lookup failed: ${profileRes.status}`);
+  }
+  const profile = (await profileRes.json()) as { id?: string; display_name?: string | null };
+  if (!profile.id) throw new Error("Unexpected profile response from Spotify");
+
+  const connection: SpotifyConnection = {
+    refreshToken: tokens.refresh_token,
+    accountId: profile.id,
+    displayName: profile.display_name || undefined,
+    scopes: (tokens.scope ?? "").split(" ").filter(Boolean),
+    connectedAt: new Date().toISOString(),
+    connectedBy: adminUserId,
+  };
+  await writeJson(STORE_KEY, connection);
+  return connection;
+};
+
+// What the admin UI needs; never includes the token itself.
+export const getSpotifyConnectionStatus = async () => {
+  const connection = await getSpotifyConnection();
+  if (connection) {
+    return {
+      connected: true,
+      source: "store" as const,
+      account: { id: connection.accountId, displayName: connection.displayName },
+      scopes: connection.scopes,
+      connectedAt: connection.connectedAt,
+      connectedBy: connection.connectedBy,
+      error: connection.lastError,
+      errorAt: connection.lastErrorAt,
+    };
+  }
+  return {
+    connected: Boolean(process.env.SPOTIFY_REFRESH_TOKEN),
+    source: process.env.SPOTIFY_REFRESH_TOKEN ? ("env" as const) : null,
+  };
+};
+
+export const spotifyStateCookieName = STATE_COOKIE_NAME;
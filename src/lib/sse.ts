@@ -0,0 +1,137 @@
+export type SseEvent = {
+  id: string;
+  event: string;
+  data: unknown;
+};
+
+type ChannelOptions = {
+  heartbeatMs?: number;
+  replaySize?: number; // recent events kept so reconnecting clients can resume from Last-Event-ID
+  retryMs?: number; // reconnect delay suggested to EventSource
+  // Sent as a named "heartbeat" event when provided; otherwise heartbeats are bare comments.
+  heartbeatData?: () => unknown;
+  onFirstSubscriber?: () => void;
+  onLastUnsubscribe?: () => void;
+};
+
+type Client = {
+  controller: ReadableStreamDefaultController<Uint8Array>;
+};
+
+export const sseHeaders = {
+  "Content-Type": "text/event-stream; charset=utf-8",
+  "Cache-Control": "no-store, no-transform",
+  Connection: "keep-alive",
+  "X-Accel-Buffering": "no", // stop nginx-style proxies from buffering the stream
+};
+
+const encoder = new TextEncoder();
+
+const formatEvent = (evt: Omit<SseEvent, "id"> & { id?: string }) =>
+  `${evt.id ? `id: ${evt.id}\n` : ""}event: ${evt.event}\ndata: ${JSON.stringify(evt.data)}\n\n`;
+
+// Fan-out hub for one event stream. Ids carry a per-process epoch so a Last-Event-ID from before a
+// restart never matches an unrelated event; unknown ids fall back to the caller's snapshot instead.
+export const createSseChannel = (options: ChannelOptions = {}) => {
+  const heartbeatMs = options.heartbeatMs ?? 15_000;
+  const replaySize = options.replaySize ?? 50;
+  const retryMs = options.retryMs ?? 5_000;
+  const epoch = Date.now().toString(36);
+
+  const clients = new Set<Client>();
+  const recent: SseEvent[] = [];
+  let sequence = 0;
+  let heartbeat: ReturnType<typeof setInterval> | null = null;
+
+  const remove = (client: Client) => {
+    if (!clients.delete(client)) return;
+    try {
+      client.controller.close();
+    } catch {
+      // Already closed by the runtime.
+    }
+    if (clients.size === 0) {
+      if (heartbeat) clearInterval(heartbeat);
+      heartbeat = null;
+      options.onLastUnsubscribe?.();
+    }
+  };
+
+  const send = (client: Client, chunk: string) => {
+    try {
+      client.controller.enqueue(encoder.encode(chunk));
+    } catch {
+      remove(client);
+    }
+  };
+
+  const beat = () => {
+    const chunk = options.heartbeatData
+      ? formatEvent({ event: "heartbeat", data: options.heartbeatData() })
+      : ": heartbeat\n\n";
+    for (const client of clients) send(client, chunk);
+  };
+
+  const publish = (event: string, data: unknown) => {
+    sequence += 1;
+    const evt: SseEvent = { id: `${epoch}-${sequence}`, event, data };
+    recent.push(evt);
+    if (recent.length > replaySize) recent.splice(0, recent.length - replaySize);
+    const chunk = formatEvent(evt);
+    for (const client of clients) send(client, chunk);
+    return evt;
+  };
+
+  // Events published after `lastEventId`, or null when it's unknown (too old, or from another process).
+  const eventsSince = (lastEventId: string | null) => {
+    if (!lastEventId) return null;
+    const index = recent.findIndex((evt) => evt.id === lastEventId);
+    return index === -1 ? null : recent.slice(index + 1);
+  };
+
+  const connect = ({
+    lastEventId,
+    signal,
+    snapshot,
+  }: {
+    lastEventId: string | null;
+    signal: AbortSignal;
+    // Current state for clients that can't resume; sent without an id so it doesn't affect resumption.
+    snapshot?: () => { event: string; data: unknown } | null;
+  }) => {
+    let client: Client | null = null;
+
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        client = { controller };
+        controller.enqueue(encoder.encode(`retry: ${retryMs}\n\n`));
+
+        const missed = eventsSince(lastEventId);
+        if (missed) {
+          for (const evt of missed) controller.enqueue(encoder.encode(formatEvent(evt)));
+        } else {
+          const current = snapshot?.();
+          if (current) controller.enqueue(encoder.encode(formatEvent(current)));
+        }
+
+        clients.add(client);
+        if (clients.size === 1) {
+          heartbeat = setInterval(beat, heartbeatMs);
+          options.onFirstSubscriber?.();
+        }
+        signal.addEventListener("abort", () => client && remove(client), { once: true });
+      },
+      cancel() {
+        if (client) remove(client);
+      },
+    });
+
+    return new Response(stream, { headers: sseHeaders });
+  };
+
+  return {
+    publish,
+    connect,
+    clientCount: () => clients.size,
+  };
+};
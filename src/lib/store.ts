@@ -0,0 +1,44 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+// Tiny JSON-file persistence for admin-managed state. Each key maps to `<DATA_DIR>/<key>.json`.
+const getDataDir = () => process.env.DATA_DIR || path.join(process.cwd(), ".data");
+
+const fileFor = (key: string) => path.join(getDataDir(), `${key}.json`);
+
+// Serialize writes per key so concurrent updates don't clobber each other.
+const writeQueues = new Map<string, Promise<unknown>>();
+
+export const readJson = async <T>(key: string, fallback: T): Promise<T> => {
+  try {
+    const raw = await fs.readFile(fileFor(key), "utf8");
+    return JSON.parse(raw) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return fallback;
+    throw error;
+  }
+};
+
+const writeFileAtomic = async (key: string, value: unknown) => {
+  const target = fileFor(key);
+  await fs.mkdir(path.dirname(target), { recursive: true });
+  const tmp = `${target}.${process.pid}.${Date.now()}.tmp`;
+  await fs.writeFile(tmp, JSON.stringify(value, null, 2), "utf8");
+  await fs.rename(tmp, target);
+};
+
+export const updateJson = <T>(key: string, fallback: T, update: (current: T) => T | Promise<T>) => {
+  const previous = writeQueues.get(key) ?? Promise.resolve();
+  const next = previous
+    .catch(() => undefined)
+    .then(async () => {
+      const current = await readJson(key, fallback);
+      const updated = await update(current);
+      await writeFileAtomic(key, updated);
+      return updated;
+    });
+  writeQueues.set(key, next);
+  return next;
+};
+
+export const writeJson = <T>(key: string, value: T) => updateJson(key, value, () => value);
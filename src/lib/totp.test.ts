@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { generateTotpSecret, otpauthUri, totpCounter, verifyTotp } from "@/lib/totp";
+
+// The SHA-1 secret from RFC 6238 appendix B ("12345678901234567890"), base32-encoded.
+const RFC_SECRET = "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ";
+
+// The RFC lists 8-digit codes; the 6-digit code is the last six of them.
+const RFC_VECTORS: [seconds: number, code: string][] = [
+  [59, "287082"],
+  [1111111109, "081804"],
+  [1111111111, "050471"],
+  [1234567890, "005924"],
+  [2000000000, "279037"],
+  [20000000000, "353130"],
+];
+
+describe("verifyTotp", () => {
+  it.each(RFC_VECTORS)("matches the RFC 6238 code at %is", (seconds, code) => {
+    const time = seconds * 1000;
+    expect(verifyTotp(RFC_SECRET, code, { window: 0, time })).toBe(totpCounter(time));
+  });
+
+  it("accepts a code one step either side by default, and no further", () => {
+    const time = 1111111109_000;
+    const counter = totpCounter(time);
+    expect(verifyTotp(RFC_SECRET, "081804", { time: time + 30_000 })).toBe(counter);
+    expect(verifyTotp(RFC_SECRET, "081804", { time: time - 30_000 })).toBe(counter);
+    expect(verifyTotp(RFC_SECRET, "081804", { time: time + 60_000 })).toBeNull();
+    expect(verifyTotp(RFC_SECRET, "081804", { time: time - 60_000 })).toBeNull();
+  });
+
+  it("ignores spaces and rejects anything that isn't six digits", () => {
+    expect(verifyTotp(RFC_SECRET, "287 082", { time: 59_000 })).toBe(1);
+    expect(verifyTotp(RFC_SECRET, "28708", { time: 59_000 })).toBeNull();
+    expect(verifyTotp(RFC_SECRET, "2870820", { time: 59_000 })).toBeNull();
+    expect(verifyTotp(RFC_SECRET, "28708a", { time: 59_000 })).toBeNull();
+    expect(verifyTotp(RFC_SECRET, "", { time: 59_000 })).toBeNull();
+  });
+
+  it("rejects a code for another secret", () => {
+    expect(verifyTotp(generateTotpSecret(), "287082", { window: 0, time: 59_000 })).toBeNull();
+  });
+});
+
+describe("generateTotpSecret", () => {
+  it("produces 160-bit base32 secrets", () => {
+    const secret = generateTotpSecret();
+    expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+    expect(generateTotpSecret()).not.toBe(secret);
+  });
+});
+
+describe("otpauthUri", () => {
+  it("describes the secret the way authenticator apps expect", () => {
+    const uri = otpauthUri({ secret: RFC_SECRET, account: "petar", issuer: "juric.dev" });
+    const [label, query] = uri.split("?");
+    expect(decodeURIComponent(label)).toBe("otpauth://totp/juric.dev:petar");
+    expect(Object.fromEntries(new URLSearchParams(query))).toEqual({
+      secret: RFC_SECRET,
+      issuer: "juric.dev",
+      algorithm: "SHA1",
+      digits: "6",
+      period: "30",
+    });
+  });
+});
@@ -0,0 +1,146 @@
+import crypto from "crypto";
+import { coarsenPoint } from "@/lib/locationPrivacy";
+import { createLruCache } from "@/lib/lruCache";
+import { readJson, updateJson } from "@/lib/store";
+
+type Counts = { views: number; uniques: number };
+
+type Region = {
+  country: string;
+  region?: string;
+  lat: number; // grid cell of the first visit from the region, for placing it on the globe
+  lng: number;
+};
+
+type VisitAnalyticsStore = {
+  // Today's salt and visitor hashes. Both are replaced at midnight UTC, so a hash can't be linked to
+  // anyone's visits on other days, and yesterday's salt can't be used to test guesses against it.
+  today: { date: string; salt: string; hashes: string[] } | null;
+  days: Record<string, Record<string, Counts>>; // "2026-10-18" → region key → counts
+  regions: Record<string, Region>;
+};
+
+export type VisitRow = { date: string; country: string; region?: string } & Counts;
+
+export type RegionTotal = Region & Counts;
+
+const STORE_KEY = "visit-analytics";
+const RETENTION_DAYS = 400;
+export const MAX_REPORT_DAYS = 365;
+const VIEW_GAP_MS = 30 * 60 * 1000; // the globe re-polls every few minutes; that's still one view
+const GRID_DEGREES = 1;
+const BOT_PATTERN = /bot|crawl|spider|slurp|preview|headless|lighthouse/i;
+const UNKNOWN_COUNTRY = "Unknown";
+
+const EMPTY: VisitAnalyticsStore = { today: null, days: {}, regions: {} };
+
+// Hashes seen within VIEW_GAP_MS. Keyed by the salted hash, so nothing here outlives the day either.
+const recentViews = createLruCache<true>({ maxEntries: 20_000, ttlMs: VIEW_GAP_MS });
+let currentSalt: { date: string; salt: string } | null = null;
+
+const utcDate = (time = Date.now()) => new Date(time).toISOString().slice(0, 10);
+
+const regionKey = (country: string, region?: string) => `${country}|${region ?? ""}`;
+
+// Starts a new day: fresh salt, no hashes, and day buckets past retention dropped.
+const rollOver = (store: VisitAnalyticsStore, date: string): VisitAnalyticsStore => {
+  if (store.today?.date === date) return store;
+  const cutoff = utcDate(Date.now() - RETENTION_DAYS * 24 * 60 * 60 * 1000);
+  const days = Object.fromEntries(Object.entries(store.days).filter(([day]) => day >= cutoff));
+  return { ...store, today: { date, salt: crypto.randomBytes(32).toString("hex"), hashes: [] }, days };
+};
+
+const saltFor = async (date: string) => {
+  if (currentSalt?.date === date) return currentSalt.salt;
+  const store = await updateJson<VisitAnalyticsStore>(STORE_KEY, EMPTY, (current) => rollOver(current, date));
+  currentSalt = { date, salt: store.today?.salt ?? "" };
+  return currentSalt.salt;
+};
+
+// Counts a page view against the visitor's country and region. The address only ever feeds the
+// salted hash; it isn't stored, and neither is the looked-up position beyond a 1° grid cell per region.
+export const recordVisit = async (
+  ip: string,
+  userAgent: string,
+  location: { lat: number; lng: number; region?: string; country?: string }
+) => {
+  if (!ip || BOT_PATTERN.test(userAgent)) return;
+
+  const date = utcDate();
+  const salt = await saltFor(date);
+  const hash = crypto.createHash("sha256").update(`${salt}|${ip}|${userAgent}`).digest("hex").slice(0, 32);
+  const repeat = recentViews.get(hash);
+  recentViews.set(hash, true);
+  if (repeat) return;
+
+  const country = location.country || UNKNOWN_COUNTRY;
+  const key = regionKey(country, location.region);
+
+  await updateJson<VisitAnalyticsStore>(STORE_KEY, EMPTY, (current) => {
+    // The day turned over between hashing and writing; this view was hashed with the old salt.
+    if (current.today?.date !== date) return current;
+
+    const unique = !current.today.hashes.includes(hash);
+    const day = current.days[date] ?? {};
+    const counts = day[key] ?? { views: 0, uniques: 0 };
+
+    let regions = current.regions;
+    if (!regions[key]) {
+      const point = coarsenPoint(location, { mode: "grid", gridDegrees: GRID_DEGREES, jitterKm: 0 });
+      regions = { ...regions, [key]: { country, region: location.region, lat: point.lat, lng: point.lng } };
+    }
+
+    return {
+      today: unique ? { ...current.today, hashes: [...current.today.hashes, hash] } : current.today,
+      days: {
+        ...current.days,
+        [date]: { ...day, [key]: { views: counts.views + 1, uniques: counts.uniques + (unique ? 1 : 0) } },
+      },
+      regions,
+    };
+  });
+};
+
+// Per-day rows (newest day first, busiest region first) and per-region totals for the last `days` days.
+// Region uniques are summed over days, so one person visiting on three days counts three times.
+export const getVisitAnalytics = async (days: number) => {
+  const store = await readJson<VisitAnalyticsStore>(STORE_KEY, EMPTY);
+  const to = utcDate();
+  const from = utcDate(Date.now() - (days - 1) * 24 * 60 * 60 * 1000);
+
+  const rows: VisitRow[] = [];
+  const totals = new Map<string, RegionTotal>();
+  for (const [date, regions] of Object.entries(store.days)) {
+    if (date < from || date > to) continue;
+    for (const [key, counts] of Object.entries(regions)) {
+      const region = store.regions[key];
+      if (!region) continue;
+      rows.push({ date, country: region.country, region: region.region, ...counts });
+      const total = totals.get(key) ?? { ...region, views: 0, uniques: 0 };
+      total.views += counts.views;
+      total.uniques += counts.uniques;
+      totals.set(key, total);
+    }
+  }
+
+  rows.sort((a, b) => b.date.localeCompare(a.date) || b.views - a.views);
+  return {
+    from,
+    to,
+    rows,
+    regions: [...totals.values()].sort((a, b) => b.views - a.views),
+  };
+};
+
+// Quotes where needed, and defuses leading =+-@ so spreadsheets don't evaluate a place name as a formula.
+const csvField = (value: string | number | undefined) => {
+  const raw = String(value ?? "");
+  const text = typeof value === "string" && /^[=+\-@]/.test(raw) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const visitRowsToCsv = (rows: VisitRow[]) =>
+  [
+    "date,country,region,views,unique_visitors",
+    ...rows.map((row) => [row.date, row.country, row.region, row.views, row.uniques].map(csvField).join(",")),
+  ].join("\r\n") + "\r\n";
@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server";
+import type { NextRequest } from "next/server";
+import { getAdminSession, resignAdminToken, sessionCookie, sessionCookieName } from "@/lib/auth";
+
+// Admin APIs reachable without a session. Everything else under /api/admin needs a valid cookie.
+// The Spotify callback arrives cross-site without the strict cookie and checks its signed state instead.
+const PUBLIC_ADMIN_APIS = ["/api/admin/login", "/api/admin/spotify/callback"];
+const LOGIN_PAGE = "/admin";
+
+export async function proxy(req: NextRequest) {
+  const { pathname } = req.nextUrl;
+  const isApi = pathname.startsWith("/api/admin");
+  if (isApi && PUBLIC_ADMIN_APIS.includes(pathname)) return NextResponse.next();
+
+  const current = await getAdminSession(req.cookies.get(sessionCookieName)?.value);
+
+  if (!current) {
+    if (isApi) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    if (pathname === LOGIN_PAGE) return NextResponse.next();
+    return NextResponse.redirect(new URL(LOGIN_PAGE, req.url));
+  }
+
+  const res = NextResponse.next();
+  // Move sessions signed with a retiring key onto the current one while they're still accepted.
+  if (current.rotate) {
+    const remainingSeconds = Math.floor((current.session.exp - Date.now()) / 1000);
+    res.cookies.set(sessionCookie(resignAdminToken(current.session), remainingSeconds));
+  }
+  return res;
+}
+
+export const config = {
+  matcher: ["/admin/:path*", "/api/admin/:path*"],
+};